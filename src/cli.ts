@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+// Command-line tool to lint, diff and convert tutorial JSON files, e.g. in CI or while reviewing a pull request.
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { ParseTutorialDataResult, TutorialDataError } from "./types";
+import { parseTutorialData, ParseTutorialDataOptions } from "./utils/parseTutorialData";
+import { lintTutorialData } from "./utils/lintTutorialData";
+import { diffTutorialData } from "./utils/diffTutorialData";
+import { tutorialToMarkdownStoryboard } from "./utils/storyboard";
+import { tutorialToWebVttChapters, tutorialToWebVttMetadata } from "./utils/webvtt";
+
+const USAGE = `Usage: react-tutorial-video <command> [options]
+
+Commands:
+  lint <file...>            Validate tutorial JSON files and report likely mistakes
+      --duration <seconds>  Report stop points, branches and keyframes after the end of the video
+      --locales <a,b>       Locales every text must be translated to (default: all locales used)
+  diff <old> <new>          Describe what changed between two versions of a tutorial
+  convert <file> --to <format>
+      --to markdown         A storyboard of all steps for copy review
+      --to chapters         A WebVTT chapters track (requires --duration)
+      --to metadata         A WebVTT metadata track holding the stop points (requires --duration)
+      --locale <locale>     Locale of chapter titles (default: en)
+      --out <file>          Write to a file instead of stdout
+
+Options:
+  --json                    Print lint and diff results as JSON
+  --help                    Show this message
+
+Exit codes: 0 on success, 1 if a file is invalid or has lint problems, 2 on usage errors.`;
+
+class UsageError extends Error {}
+
+const readTutorialFile = (file: string, options?: ParseTutorialDataOptions): ParseTutorialDataResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    return { ok: false, data: null, errors: [{ path: "$", message: (error as Error).message }], warnings: [] };
+  }
+  return parseTutorialData(json, options);
+};
+
+const parseDuration = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const duration = Number(value);
+  if (!Number.isFinite(duration) || duration <= 0) throw new UsageError(`Invalid --duration "${value}".`);
+  return duration;
+};
+
+const formatProblems = (file: string, severity: string, problems: TutorialDataError[]) =>
+  problems.map(({ path, message }) => `${file}: ${severity} ${path}: ${message}`);
+
+const lint = (files: string[], options: { duration?: string; locales?: string; json?: boolean }): number => {
+  if (files.length === 0) throw new UsageError("lint expects at least one file.");
+  const duration = parseDuration(options.duration);
+  const locales = options.locales?.split(",").map((locale) => locale.trim());
+  const results = files.map((file) => {
+    // Areas keep the file's order, so problems point at the same paths as validation errors.
+    const { data, errors, warnings } = readTutorialFile(file, { locales, sortAreas: false });
+    const problems = data ? lintTutorialData(data, { duration }) : [];
+    return { file, errors, warnings, problems };
+  });
+  const hasProblems = results.some(({ errors, problems }) => errors.length > 0 || problems.length > 0);
+
+  if (options.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    results.forEach(({ file, errors, warnings, problems }) => {
+      const lines = [
+        ...formatProblems(file, "error", errors),
+        ...formatProblems(file, "problem", problems),
+        ...formatProblems(file, "warning", warnings),
+      ];
+      console.log(lines.length > 0 ? lines.join("\n") : `${file}: OK`);
+    });
+  }
+  return hasProblems ? 1 : 0;
+};
+
+const CHANGE_MARKERS = { added: "+", removed: "-", changed: "~" };
+
+const diff = (files: string[], options: { json?: boolean }): number => {
+  if (files.length !== 2) throw new UsageError("diff expects exactly two files.");
+  const [before, after] = files.map((file) => ({ file, ...readTutorialFile(file, { sortAreas: false }) }));
+  const invalid = [before, after].filter(({ data }) => !data);
+  if (invalid.length > 0) {
+    invalid.forEach(({ file, errors }) => console.error(formatProblems(file, "error", errors).join("\n")));
+    return 1;
+  }
+  const changes = diffTutorialData(before.data!, after.data!);
+  if (options.json) {
+    console.log(JSON.stringify(changes, null, 2));
+  } else {
+    console.log(
+      changes.length > 0
+        ? changes.map(({ type, message }) => `${CHANGE_MARKERS[type]} ${message}`).join("\n")
+        : "No changes."
+    );
+  }
+  return 0;
+};
+
+const convert = (
+  files: string[],
+  options: { to?: string; duration?: string; locale?: string; out?: string }
+): number => {
+  if (files.length !== 1) throw new UsageError("convert expects exactly one file.");
+  const { data, errors } = readTutorialFile(files[0]);
+  if (!data) {
+    console.error(formatProblems(files[0], "error", errors).join("\n"));
+    return 1;
+  }
+  const requireDuration = () => {
+    const duration = parseDuration(options.duration);
+    if (duration === undefined) throw new UsageError(`--to ${options.to} requires --duration.`);
+    return duration;
+  };
+  let output: string;
+  switch (options.to) {
+    case "markdown":
+      output = tutorialToMarkdownStoryboard(data);
+      break;
+    case "chapters":
+      output = tutorialToWebVttChapters(data, { duration: requireDuration(), locale: options.locale });
+      break;
+    case "metadata":
+      output = tutorialToWebVttMetadata(data, { duration: requireDuration() });
+      break;
+    default:
+      throw new UsageError('convert expects --to "markdown", "chapters" or "metadata".');
+  }
+  if (options.out) writeFileSync(options.out, output);
+  else process.stdout.write(output);
+  return 0;
+};
+
+const run = (argv: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      duration: { type: "string" },
+      locales: { type: "string" },
+      locale: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean" },
+    },
+  });
+  const [command, ...files] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+  switch (command) {
+    case "lint":
+      return lint(files, values);
+    case "diff":
+      return diff(files, values);
+    case "convert":
+      return convert(files, values);
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  // parseArgs reports unknown options with a TypeError carrying an ERR_PARSE_ARGS_* code.
+  const isUsageError =
+    error instanceof UsageError || String((error as { code?: string }).code).startsWith("ERR_PARSE_ARGS");
+  if (!isUsageError) throw error;
+  console.error(`${(error as Error).message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from "react";
+import { InteractionArea, Point } from "../types";
+import {
+  AreaGeometry,
+  BoxHandle,
+  DrawableArea,
+  boxFromCorners,
+  clampPoint,
+  moveBox,
+  movePoints,
+  resizeBox,
+} from "../utils/editorData";
+
+export type EditorTool = "select" | "box" | "oval" | "polygon";
+
+interface AreaCanvasProps {
+  /** Areas of the stop point being edited. */
+  areas: InteractionArea[];
+  selectedAreaId: string | null;
+  tool: EditorTool;
+  primaryColor: string;
+  onSelect: (areaId: string | null) => void;
+  onCreate: (geometry: AreaGeometry) => void;
+  /** Called on every pointer move of a drag. All moves of one drag share the same `dragId`. */
+  onChange: (areaId: string, geometry: AreaGeometry, dragId: string) => void;
+}
+
+type Drag =
+  | { kind: "draw"; type: "box" | "oval"; start: Point }
+  | { kind: "move"; area: DrawableArea; start: Point }
+  | { kind: "resize"; area: Extract<DrawableArea, { type: "box" | "oval" }>; handle: BoxHandle }
+  | { kind: "vertex"; area: Extract<DrawableArea, { type: "polygon" }>; index: number };
+
+/** Boxes smaller than this, as a fraction of the video, are treated as accidental clicks. */
+const MIN_BOX_SIZE = 0.01;
+/** Clicking this close to the first point of a polygon being drawn closes it. */
+const CLOSE_DISTANCE = 0.02;
+
+const HANDLES: { handle: BoxHandle; cursor: string }[] = [
+  { handle: "nw", cursor: "nwse-resize" },
+  { handle: "ne", cursor: "nesw-resize" },
+  { handle: "sw", cursor: "nesw-resize" },
+  { handle: "se", cursor: "nwse-resize" },
+];
+
+const isDrawable = (area: InteractionArea): area is DrawableArea => area.type !== "quiz";
+
+const getCorner = (area: Extract<DrawableArea, { type: "box" | "oval" }>, handle: BoxHandle): Point => ({
+  x: handle.endsWith("w") ? area.box.x : area.box.x + area.box.width,
+  y: handle.startsWith("n") ? area.box.y : area.box.y + area.box.height,
+});
+
+/** Top left corner of the area's bounds, where its order badge goes. */
+const getAnchor = (area: DrawableArea): Point =>
+  area.type === "polygon"
+    ? { x: Math.min(...area.points.map((p) => p.x)), y: Math.min(...area.points.map((p) => p.y)) }
+    : { x: area.box.x, y: area.box.y };
+
+const renderShape = (
+  geometry: AreaGeometry,
+  props: React.SVGProps<SVGPolygonElement & SVGEllipseElement & SVGRectElement>
+) => {
+  const common = { ...props, vectorEffect: "non-scaling-stroke" };
+  if (geometry.type === "polygon") {
+    return <polygon {...common} points={geometry.points.map((p) => `${p.x},${p.y}`).join(" ")} />;
+  }
+  const { x, y, width, height } = geometry.box;
+  if (geometry.type === "oval") {
+    return <ellipse {...common} cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} />;
+  }
+  return <rect {...common} x={x} y={y} width={width} height={height} />;
+};
+
+/**
+ * Draws the areas of a stop point over the paused video frame and lets authors draw new ones and
+ * move or reshape the selected one with drag handles. Coordinates are fractions of the video size.
+ */
+const AreaCanvas: React.FC<AreaCanvasProps> = ({
+  areas,
+  selectedAreaId,
+  tool,
+  primaryColor,
+  onSelect,
+  onCreate,
+  onChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<(Drag & { id: string }) | null>(null);
+  const dragCount = useRef(0);
+  const [drawing, setDrawing] = useState<AreaGeometry | null>(null);
+  // Vertices of the polygon being drawn, and the pointer position its next edge follows.
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [pointer, setPointer] = useState<Point | null>(null);
+
+  useEffect(() => setDraftPoints([]), [tool]);
+
+  const finishPolygon = () => {
+    // A double click to finish also adds its two clicks as points, so drop repeated points.
+    const points = draftPoints.filter(
+      (point, index) =>
+        index === 0 || Math.hypot(point.x - draftPoints[index - 1].x, point.y - draftPoints[index - 1].y) > 0.001
+    );
+    if (points.length >= 3) onCreate({ type: "polygon", points });
+    setDraftPoints([]);
+  };
+
+  useEffect(() => {
+    if (draftPoints.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setDraftPoints([]);
+      if (e.key === "Enter") finishPolygon();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const toPoint = (e: React.PointerEvent | React.MouseEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return clampPoint({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  const startDrag = (e: React.PointerEvent, next: Drag) => {
+    e.stopPropagation();
+    e.preventDefault();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragCount.current += 1;
+    drag.current = { ...next, id: `drag-${dragCount.current}` };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const point = toPoint(e);
+    if (tool === "box" || tool === "oval") {
+      startDrag(e, { kind: "draw", type: tool, start: point });
+      setDrawing({ type: tool, box: boxFromCorners(point, point) });
+    } else if (tool === "polygon") {
+      const first = draftPoints[0];
+      const isClosing =
+        first && draftPoints.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE;
+      if (isClosing) finishPolygon();
+      else setDraftPoints((points) => [...points, point]);
+    } else {
+      onSelect(null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = toPoint(e);
+    if (tool === "polygon") setPointer(point);
+    const current = drag.current;
+    if (!current) return;
+    switch (current.kind) {
+      case "draw":
+        setDrawing({ type: current.type, box: boxFromCorners(current.start, point) });
+        break;
+      case "move": {
+        const { area } = current;
+        const delta = { x: point.x - current.start.x, y: point.y - current.start.y };
+        onChange(
+          area.id,
+          area.type === "polygon"
+            ? { type: "polygon", points: movePoints(area.points, delta) }
+            : { type: area.type, box: moveBox(area.box, delta) },
+          current.id
+        );
+        break;
+      }
+      case "resize":
+        onChange(
+          current.area.id,
+          { type: current.area.type, box: resizeBox(current.area.box, current.handle, point) },
+          current.id
+        );
+        break;
+      case "vertex":
+        onChange(
+          current.area.id,
+          { type: "polygon", points: current.area.points.map((p, index) => (index === current.index ? point : p)) },
+          current.id
+        );
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    const current = drag.current;
+    drag.current = null;
+    if (current?.kind === "draw" && drawing && drawing.type !== "polygon") {
+      if (drawing.box.width >= MIN_BOX_SIZE && drawing.box.height >= MIN_BOX_SIZE) onCreate(drawing);
+    }
+    setDrawing(null);
+  };
+
+  const selectedArea = areas.find((area) => area.id === selectedAreaId);
+  const isSelecting = tool === "select";
+
+  return (
+    <div
+      ref={containerRef}
+      className={`absolute inset-0 touch-none select-none ${isSelecting ? "" : "cursor-crosshair"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setPointer(null)}
+      onDoubleClick={() => tool === "polygon" && finishPolygon()}
+    >
+      <svg
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        className="absolute inset-0 w-full h-full overflow-visible"
+        aria-hidden="true"
+      >
+        {areas.map((area) => {
+          const isSelected = area.id === selectedAreaId;
+          if (!isDrawable(area)) {
+            // Quiz regions are shown for reference; quizzes are edited as data, not drawn.
+            return area.box ? (
+              <React.Fragment key={area.id}>
+                {renderShape(
+                  { type: "box", box: area.box },
+                  { fill: "none", stroke: "white", strokeDasharray: "4 4", strokeWidth: 1, pointerEvents: "none" }
+                )}
+              </React.Fragment>
+            ) : null;
+          }
+          return (
+            <React.Fragment key={area.id}>
+              {renderShape(area, {
+                fill: isSelected ? `${primaryColor}40` : "rgba(255, 255, 255, 0.08)",
+                stroke: primaryColor,
+                strokeWidth: isSelected ? 3 : 2,
+                strokeDasharray: isSelected ? undefined : "6 4",
+                pointerEvents: isSelecting ? "all" : "none",
+                cursor: "move",
+                onPointerDown: (e: React.PointerEvent<SVGElement>) => {
+                  if (e.button !== 0) return;
+                  onSelect(area.id);
+                  startDrag(e, { kind: "move", area, start: toPoint(e) });
+                },
+              })}
+            </React.Fragment>
+          );
+        })}
+        {drawing &&
+          renderShape(drawing, {
+            fill: `${primaryColor}30`,
+            stroke: primaryColor,
+            strokeWidth: 2,
+            pointerEvents: "none",
+          })}
+        {draftPoints.length > 0 && (
+          <polyline
+            points={[...draftPoints, ...(pointer ? [pointer] : [])].map((p) => `${p.x},${p.y}`).join(" ")}
+            fill={`${primaryColor}30`}
+            stroke={primaryColor}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="none"
+          />
+        )}
+      </svg>
+
+      {areas.filter(isDrawable).map((area) => {
+        const anchor = getAnchor(area);
+        return (
+          <span
+            key={area.id}
+            className="absolute -translate-y-full px-1.5 text-xs font-semibold text-white rounded-t pointer-events-none"
+            style={{ left: `${anchor.x * 100}%`, top: `${anchor.y * 100}%`, background: primaryColor }}
+            aria-hidden="true"
+          >
+            {area.order}
+          </span>
+        );
+      })}
+
+      {isSelecting &&
+        selectedArea &&
+        isDrawable(selectedArea) &&
+        (selectedArea.type === "polygon"
+          ? selectedArea.points.map((point, index) => ({
+              key: `vertex-${index}`,
+              point,
+              cursor: "move",
+              onPointerDown: (e: React.PointerEvent) => startDrag(e, { kind: "vertex", area: selectedArea, index }),
+            }))
+          : HANDLES.map(({ handle, cursor }) => ({
+              key: handle,
+              point: getCorner(selectedArea, handle),
+              cursor,
+              onPointerDown: (e: React.PointerEvent) => startDrag(e, { kind: "resize", area: selectedArea, handle }),
+            }))
+        ).map(({ key, point, cursor, onPointerDown }) => (
+          <span
+            key={key}
+            className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-sm bg-white border-2 shadow"
+            style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%`, cursor, borderColor: primaryColor }}
+            onPointerDown={onPointerDown}
+            aria-hidden="true"
+          />
+        ))}
+    </div>
+  );
+};
+
+export default AreaCanvas;
@@ -0,0 +1,40 @@
+import React, { useEffect, useRef, useState } from "react";
+
+interface AutoAdvanceCountdownProps {
+  /** Milliseconds until the area continues on its own. Remount the countdown to restart it. */
+  duration: number;
+  primaryColor: string;
+}
+
+/** A shrinking bar with the seconds left until a speech bubble continues on its own. */
+const AutoAdvanceCountdown: React.FC<AutoAdvanceCountdownProps> = ({ duration, primaryColor }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(duration / 1000));
+
+  useEffect(() => {
+    const animation = barRef.current?.animate?.([{ transform: "scaleX(1)" }, { transform: "scaleX(0)" }], {
+      duration,
+      easing: "linear",
+      fill: "forwards",
+    });
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      setSecondsLeft(Math.max(0, Math.ceil((duration - (Date.now() - startedAt)) / 1000)));
+    }, 250);
+    return () => {
+      animation?.cancel();
+      clearInterval(interval);
+    };
+  }, [duration]);
+
+  return (
+    <div className="flex items-center gap-3 mb-3" aria-hidden="true">
+      <div className="flex-1 h-1 rounded-full bg-current/10 overflow-hidden">
+        <div ref={barRef} className="h-full origin-left rtl:origin-right" style={{ background: primaryColor }} />
+      </div>
+      <span className="text-xs tabular-nums text-(--rtv-bubble-muted-text)">{secondsLeft}s</span>
+    </div>
+  );
+};
+
+export default AutoAdvanceCountdown;
@@ -0,0 +1,37 @@
+import React from "react";
+import { WebVttCue } from "../types";
+import { webVttCueToPlainText } from "../utils/webvtt";
+
+interface CaptionsLayerProps {
+  cues: WebVttCue[];
+  currentTime: number;
+  lang?: string;
+}
+
+/**
+ * Shows the cues active at `currentTime` near the bottom of the video. It sits above the highlight
+ * mask, which would hide the video's own captions, and below speech bubbles.
+ */
+const CaptionsLayer: React.FC<CaptionsLayerProps> = ({ cues, currentTime, lang }) => {
+  const activeCues = cues.filter((cue) => currentTime >= cue.start && currentTime < cue.end);
+  if (activeCues.length === 0) return null;
+
+  return (
+    <div
+      lang={lang}
+      className="absolute inset-x-0 bottom-4 z-40 flex flex-col items-center gap-1 px-4 pointer-events-none"
+      aria-hidden="true"
+    >
+      {activeCues.map((cue, index) => (
+        <p
+          key={cue.id ?? index}
+          className="max-w-[90%] px-3 py-1 rounded bg-black/80 text-white text-base sm:text-lg text-center whitespace-pre-line"
+        >
+          {webVttCueToPlainText(cue.text)}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default CaptionsLayer;
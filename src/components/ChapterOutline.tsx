@@ -0,0 +1,94 @@
+import React from "react";
+import { Check } from "lucide-react";
+import { ChapterProgress } from "../utils/chapters";
+
+interface ChapterOutlineProps {
+  chapters: ChapterProgress[];
+  /** Index of the chapter the video is in, or -1 outside of chapters. */
+  activeChapterIndex: number;
+  /** Completed and total stop points of the whole tutorial. */
+  overall: { completed: number; total: number };
+  localize: (chapter: ChapterProgress["chapter"]) => { title: string; description?: string };
+  primaryColor: string;
+  labels: {
+    chapters: string;
+    /** `{completed}` and `{total}` are replaced with numbers of stop points. */
+    chapterProgress: string;
+  };
+  onSelectChapter: (chapterIndex: number) => void;
+}
+
+const formatProgress = (label: string, { completed, total }: { completed: number; total: number }) =>
+  label.replace("{completed}", String(completed)).replace("{total}", String(total));
+
+const ProgressBar = ({ completed, total, color }: { completed: number; total: number; color: string }) => (
+  <div className="h-1.5 rounded-full bg-(--rtv-track-color) overflow-hidden">
+    <div
+      className="h-full rounded-full transition-all duration-300 ease-out"
+      style={{ width: `${total > 0 ? (completed / total) * 100 : 0}%`, backgroundColor: color }}
+    />
+  </div>
+);
+
+/** Lists the tutorial's chapters with their progress. Selecting a chapter jumps to its first stop point. */
+const ChapterOutline: React.FC<ChapterOutlineProps> = ({
+  chapters,
+  activeChapterIndex,
+  overall,
+  localize,
+  primaryColor,
+  labels,
+  onSelectChapter,
+}) => (
+  <nav aria-label={labels.chapters} className="space-y-4">
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-(--rtv-bubble-muted-text)">
+        <span>{labels.chapters}</span>
+        <span>{formatProgress(labels.chapterProgress, overall)}</span>
+      </div>
+      <ProgressBar {...overall} color={primaryColor} />
+    </div>
+    <ol className="space-y-1">
+      {chapters.map((progress, index) => {
+        const { title, description } = localize(progress.chapter);
+        const isActive = index === activeChapterIndex;
+        return (
+          <li key={progress.chapter.id}>
+            <button
+              type="button"
+              onClick={() => onSelectChapter(index)}
+              aria-current={isActive ? "step" : undefined}
+              className={`w-full flex gap-3 p-3 text-start text-(--rtv-bubble-text) rounded-(--rtv-button-radius) hover:bg-current/5 focus-visible:outline-2 focus-visible:outline-(--rtv-primary) ${
+                isActive ? "bg-current/10" : ""
+              }`}
+            >
+              <span
+                className="flex-none flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold"
+                style={
+                  progress.isComplete
+                    ? { background: primaryColor, color: "var(--rtv-button-text)" }
+                    : { boxShadow: `inset 0 0 0 2px ${isActive ? primaryColor : "var(--rtv-track-color)"}` }
+                }
+                aria-hidden="true"
+              >
+                {progress.isComplete ? <Check className="w-4 h-4" /> : index + 1}
+              </span>
+              <span className="flex-1 min-w-0 space-y-1">
+                <span className="block font-semibold truncate">{title}</span>
+                {description && (
+                  <span className="block text-sm text-(--rtv-bubble-muted-text) line-clamp-2">{description}</span>
+                )}
+                <span className="block text-xs text-(--rtv-bubble-muted-text)">
+                  {formatProgress(labels.chapterProgress, progress)}
+                </span>
+                <ProgressBar {...progress} color={primaryColor} />
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  </nav>
+);
+
+export default ChapterOutline;
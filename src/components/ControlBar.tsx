@@ -0,0 +1,109 @@
+import React from "react";
+import { Pause, Play, Volume2, VolumeX, Maximize, Minimize } from "lucide-react";
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+interface ControlBarProps {
+  isPlaying: boolean;
+  /** False while a stop point is active, where the tutorial decides when the video continues. */
+  canTogglePlay: boolean;
+  onTogglePlay: () => void;
+  playbackRate: number;
+  onPlaybackRateChange: (playbackRate: number) => void;
+  volume: number;
+  isMuted: boolean;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  isFullscreen: boolean;
+  /** False if the browser does not support fullscreen, which hides the button. */
+  canFullscreen: boolean;
+  onToggleFullscreen: () => void;
+  /** Keeps the bar visible instead of fading it out until the pointer moves over the player. */
+  isPinned: boolean;
+  labels: {
+    play: string;
+    pause: string;
+    mute: string;
+    unmute: string;
+    volume: string;
+    playbackSpeed: string;
+    fullscreen: string;
+    exitFullscreen: string;
+  };
+}
+
+const ICON_BUTTON_CLASS =
+  "p-2 rounded-full text-white hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-transparent focus-visible:outline-2 focus-visible:outline-white";
+
+/** Playback controls over the bottom edge of the video. */
+const ControlBar: React.FC<ControlBarProps> = ({
+  isPlaying,
+  canTogglePlay,
+  onTogglePlay,
+  playbackRate,
+  onPlaybackRateChange,
+  volume,
+  isMuted,
+  onVolumeChange,
+  onToggleMute,
+  isFullscreen,
+  canFullscreen,
+  onToggleFullscreen,
+  isPinned,
+  labels,
+}) => (
+  <div
+    // Only the controls take clicks, so highlights near the bottom of the video stay clickable.
+    className={`absolute inset-x-0 bottom-0 z-[55] flex items-center gap-1 px-2 pt-6 pb-2 bg-gradient-to-t from-black/70 to-transparent pointer-events-none *:pointer-events-auto transition-opacity duration-300 focus-within:opacity-100 ${
+      isPinned ? "" : "pointer-fine:opacity-0 pointer-fine:group-hover:opacity-100"
+    }`}
+  >
+    <button
+      onClick={onTogglePlay}
+      disabled={!canTogglePlay}
+      aria-label={isPlaying ? labels.pause : labels.play}
+      className={ICON_BUTTON_CLASS}
+    >
+      {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+    </button>
+
+    <button onClick={onToggleMute} aria-label={isMuted ? labels.unmute : labels.mute} className={ICON_BUTTON_CLASS}>
+      {isMuted || volume === 0 ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={1}
+      step={0.05}
+      value={isMuted ? 0 : volume}
+      onChange={(e) => onVolumeChange(Number(e.target.value))}
+      aria-label={labels.volume}
+      className="hidden sm:block w-20 accent-white"
+    />
+
+    <select
+      value={playbackRate}
+      onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+      aria-label={labels.playbackSpeed}
+      className="ms-auto px-2 py-1 rounded-md bg-black/40 text-sm text-white tabular-nums hover:bg-white/20"
+    >
+      {PLAYBACK_RATES.map((rate) => (
+        <option key={rate} value={rate} className="text-black">
+          {rate}×
+        </option>
+      ))}
+    </select>
+
+    {canFullscreen && (
+      <button
+        onClick={onToggleFullscreen}
+        aria-label={isFullscreen ? labels.exitFullscreen : labels.fullscreen}
+        className={ICON_BUTTON_CLASS}
+      >
+        {isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+      </button>
+    )}
+  </div>
+);
+
+export default ControlBar;
@@ -0,0 +1,32 @@
+import React from "react";
+import { TriangleAlert } from "lucide-react";
+import { TutorialDataError } from "../types";
+
+interface DataErrorPanelProps {
+  errors: TutorialDataError[];
+}
+
+const DataErrorPanel: React.FC<DataErrorPanelProps> = ({ errors }) => {
+  return (
+    <div
+      role="alert"
+      className="w-full max-w-6xl mx-auto p-6 bg-slate-800 rounded-lg border border-red-500/50 text-slate-100 space-y-4"
+    >
+      <div className="flex items-center gap-2 text-red-400 font-semibold">
+        <TriangleAlert className="w-5 h-5" />
+        <span>
+          Invalid tutorialData ({errors.length} {errors.length === 1 ? "error" : "errors"})
+        </span>
+      </div>
+      <ul className="space-y-1 text-sm font-mono">
+        {errors.map((error, index) => (
+          <li key={index}>
+            <span className="text-slate-400">{error.path}</span> {error.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DataErrorPanel;
@@ -0,0 +1,61 @@
+import React, { useId, useRef } from "react";
+import { useFocusTrap } from "../hooks/useFocusTrap";
+
+interface ExitConfirmDialogProps {
+  labels: {
+    prompt: string;
+    exit: string;
+    stay: string;
+  };
+  onExit: () => void;
+  onStay: () => void;
+}
+
+const ExitConfirmDialog: React.FC<ExitConfirmDialogProps> = ({ labels, onExit, onStay }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+  useFocusTrap(dialogRef, true);
+
+  return (
+    <div
+      className="absolute inset-0 bg-black/60 flex items-center justify-center z-[60]"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="w-80 p-6 bg-(--rtv-bubble-background) border border-(--rtv-bubble-border) text-(--rtv-bubble-text) rounded-(--rtv-bubble-radius) shadow-2xl space-y-4"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            e.stopPropagation();
+            onStay();
+          }
+        }}
+      >
+        <p id={titleId} className="text-base leading-relaxed">
+          {labels.prompt}
+        </p>
+        <div className="flex gap-2">
+          <button
+            data-autofocus
+            onClick={onStay}
+            className="flex-1 py-3 px-4 bg-current/10 font-semibold rounded-(--rtv-button-radius) hover:bg-current/20"
+          >
+            {labels.stay}
+          </button>
+          <button
+            onClick={onExit}
+            className="flex-1 py-3 px-4 bg-(--rtv-error-color) text-(--rtv-button-text) font-semibold rounded-(--rtv-button-radius) hover:bg-(--rtv-error-color)/80"
+          >
+            {labels.exit}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExitConfirmDialog;
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { Check, MoveRight, X } from "lucide-react";
+import { LocalizedText, QuizInteractionArea } from "../types";
+import { markdownToPlainText } from "../utils/markdown";
+import RichText from "./RichText";
+
+interface QuizPanelProps {
+  area: QuizInteractionArea;
+  /** Resolves a text to the player's locale. */
+  localize: (text: LocalizedText | undefined) => string;
+  primaryColor: string;
+  labels: {
+    continue: string;
+    correct: string;
+    incorrect: string;
+    revealed: string;
+  };
+  /** Called after every answer with the 1-based attempt number. */
+  onAnswer: (optionId: string, isCorrect: boolean, attempt: number) => void;
+  /** Called when the user continues after answering correctly or running out of attempts. */
+  onContinue: () => void;
+}
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ area, localize, primaryColor, labels, onAnswer, onContinue }) => {
+  const [wrongOptionIds, setWrongOptionIds] = useState<string[]>([]);
+  const [selectedOptionId, setSelectedOptionId] = useState<string | null>(null);
+
+  const isCorrect = selectedOptionId === area.correctOptionId;
+  const attemptsUsed = wrongOptionIds.length + (isCorrect ? 1 : 0);
+  const isOutOfAttempts = !isCorrect && area.maxAttempts !== undefined && attemptsUsed >= area.maxAttempts;
+  const isDone = isCorrect || isOutOfAttempts;
+  const questionLabel = area.format === "markdown" ? markdownToPlainText(localize(area.text)) : localize(area.text);
+
+  const handleSelect = (optionId: string) => {
+    if (isDone || wrongOptionIds.includes(optionId)) return;
+    const correct = optionId === area.correctOptionId;
+    setSelectedOptionId(optionId);
+    if (!correct) setWrongOptionIds((ids) => [...ids, optionId]);
+    onAnswer(optionId, correct, wrongOptionIds.length + 1);
+  };
+
+  const getOptionClasses = (optionId: string) => {
+    const base =
+      "w-full flex items-center justify-between gap-2 text-start py-3 px-4 rounded-(--rtv-button-radius) border transition-all duration-300";
+    if (optionId === area.correctOptionId && isDone)
+      return `${base} border-(--rtv-success-color) bg-(--rtv-success-color)/20`;
+    if (wrongOptionIds.includes(optionId))
+      return `${base} border-(--rtv-error-color) bg-(--rtv-error-color)/20 opacity-70 cursor-not-allowed`;
+    if (isDone) return `${base} border-(--rtv-bubble-border) opacity-50 cursor-not-allowed`;
+    return `${base} border-(--rtv-bubble-border) hover:bg-current/10 cursor-pointer`;
+  };
+
+  let feedback: string | null = null;
+  const incorrectFeedback = localize(area.feedback?.incorrect) || labels.incorrect;
+  if (isCorrect) feedback = localize(area.feedback?.correct) || labels.correct;
+  else if (isOutOfAttempts) feedback = `${incorrectFeedback} ${labels.revealed}`;
+  else if (selectedOptionId) feedback = incorrectFeedback;
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      {area.title && <h3 className="mb-2 text-lg font-bold">{localize(area.title)}</h3>}
+      <div className="mb-4">
+        <RichText text={localize(area.text)} format={area.format} primaryColor={primaryColor} />
+      </div>
+
+      <div role="radiogroup" aria-label={questionLabel} className="space-y-2 mb-4">
+        {area.options.map((option) => (
+          <button
+            key={option.id}
+            role="radio"
+            aria-checked={selectedOptionId === option.id}
+            disabled={isDone || wrongOptionIds.includes(option.id)}
+            onClick={() => handleSelect(option.id)}
+            className={getOptionClasses(option.id)}
+          >
+            <span>{localize(option.text)}</span>
+            {option.id === area.correctOptionId && isDone && <Check className="w-5 h-5 text-(--rtv-success-color)" />}
+            {wrongOptionIds.includes(option.id) && <X className="w-5 h-5 text-(--rtv-error-color)" />}
+          </button>
+        ))}
+      </div>
+
+      {feedback && (
+        <p
+          aria-live="polite"
+          className={`mb-4 text-sm leading-relaxed ${
+            isCorrect ? "text-(--rtv-success-color)" : "text-(--rtv-error-color)"
+          }`}
+        >
+          {feedback}
+        </p>
+      )}
+
+      {isDone && (
+        <button
+          onClick={onContinue}
+          className="w-full flex items-center justify-center gap-2 text-(--rtv-button-text) font-semibold py-3 px-6 rounded-(--rtv-button-radius) transition-all duration-300 transform motion-safe:hover:scale-105 shadow-lg"
+          style={{ backgroundColor: primaryColor }}
+        >
+          <span>{labels.continue}</span>
+          <MoveRight className="w-5 h-5 rtl:rotate-180" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
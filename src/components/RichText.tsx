@@ -0,0 +1,81 @@
+import React, { useMemo } from "react";
+import { MarkdownInline, TextFormat } from "../types";
+import { parseMarkdown } from "../utils/markdown";
+
+interface RichTextProps {
+  text: string;
+  format?: TextFormat;
+  /** Link color, so links match the player's theme. */
+  primaryColor: string;
+}
+
+const renderInline = (nodes: MarkdownInline[], primaryColor: string): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-current/10 font-mono text-sm">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInline(node.children, primaryColor)}
+          </strong>
+        );
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children, primaryColor)}</em>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2"
+            style={{ color: primaryColor }}
+          >
+            {renderInline(node.children, primaryColor)}
+          </a>
+        );
+      case "image":
+        return (
+          <img
+            key={index}
+            src={node.src}
+            alt={node.alt}
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            className="block my-2 max-w-full max-h-48 rounded-lg"
+          />
+        );
+    }
+  });
+
+/** Renders an area's text, as is or with the Markdown subset of `parseMarkdown`. */
+const RichText: React.FC<RichTextProps> = ({ text, format = "plain", primaryColor }) => {
+  const blocks = useMemo(() => (format === "markdown" ? parseMarkdown(text) : null), [text, format]);
+
+  if (!blocks) return <p className="text-base leading-relaxed">{text}</p>;
+
+  return (
+    <div className="space-y-2 text-base leading-relaxed">
+      {blocks.map((block, index) => {
+        if (block.type === "paragraph") return <p key={index}>{renderInline(block.children, primaryColor)}</p>;
+        const List = block.ordered ? "ol" : "ul";
+        return (
+          <List key={index} className={`ps-5 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, primaryColor)}</li>
+            ))}
+          </List>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RichText;
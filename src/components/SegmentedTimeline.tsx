@@ -0,0 +1,221 @@
+import React, { useMemo, useRef, useState } from "react";
+import { StopPoint, TimeRange } from "../types";
+import { getPathProgress } from "../utils/timeRanges";
+
+/** A chapter boundary on the timeline. */
+export interface TimelineChapter {
+  id: string;
+  /** Localized chapter title. */
+  title: string;
+  /** Time of the chapter's first stop point. */
+  start: number;
+  isComplete: boolean;
+}
+
+interface SegmentedTimelineProps {
+  duration: number;
+  currentTime: number;
+  stopPoints: StopPoint[];
+  /** Tooltip text of each stop point, usually its first area's localized text. */
+  stopPointPreviews: string[];
+  /** Parts of the video jumped over by branches. They are drawn as skipped and left out of the percentage. */
+  skippedRanges?: TimeRange[];
+  /** Chapters, drawn as labelled boundaries above the segments. */
+  chapters?: TimelineChapter[];
+  primaryColor: string;
+  labels: {
+    /** Tooltip of the segment before the first stop point. */
+    start: string;
+    /** Accessible name of the timeline. */
+    steps: string;
+    /** Accessible name of a stop point's segment. `{current}` and `{total}` are replaced with stop point numbers. */
+    step: string;
+  };
+  /** Called when the segment starting at the given stop point is selected. */
+  onSelectStop?: (stopPointIndex: number) => void;
+  /** Called when the segment before the first stop point is selected. */
+  onSelectStart?: () => void;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  /** The stop point at the start of this segment, or null for the segment before the first stop point. */
+  stopPointIndex: number | null;
+}
+
+const formatStep = (label: string, current: number, total: number) =>
+  label.replace("{current}", String(current)).replace("{total}", String(total));
+
+const SegmentedTimeline: React.FC<SegmentedTimelineProps> = ({
+  duration,
+  currentTime,
+  stopPoints,
+  stopPointPreviews,
+  skippedRanges = [],
+  chapters = [],
+  primaryColor,
+  labels,
+  onSelectStop,
+  onSelectStart,
+}) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const segmentRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  const segments = useMemo(() => {
+    const newSegments: Segment[] = [];
+    let lastTime = 0;
+    let lastStopPointIndex: number | null = null;
+    stopPoints.forEach((stopPoint, index) => {
+      newSegments.push({ start: lastTime, end: stopPoint.time, stopPointIndex: lastStopPointIndex });
+      lastTime = stopPoint.time;
+      lastStopPointIndex = index;
+    });
+    if (lastTime < duration) newSegments.push({ start: lastTime, end: duration, stopPointIndex: lastStopPointIndex });
+    return newSegments;
+  }, [stopPoints, duration]);
+
+  if (duration === 0) return null;
+
+  const activeIndex = segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  const selectSegment = (segment: Segment) => {
+    if (segment.stopPointIndex === null) onSelectStart?.();
+    else onSelectStop?.(segment.stopPointIndex);
+  };
+
+  const getTooltip = (segment: Segment) => {
+    if (segment.stopPointIndex === null) return labels.start;
+    return stopPointPreviews[segment.stopPointIndex] ?? "";
+  };
+
+  // Only stop points count as steps; the segment before the first one is named by its tooltip alone.
+  const getAccessibleName = (segment: Segment) => {
+    if (segment.stopPointIndex === null) return labels.start;
+    const step = formatStep(labels.step, segment.stopPointIndex + 1, stopPoints.length);
+    return `${step}: ${getTooltip(segment)}`;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    let targetIndex: number;
+    switch (e.key) {
+      case "ArrowLeft":
+        targetIndex = Math.max(0, index - 1);
+        break;
+      case "ArrowRight":
+        targetIndex = Math.min(segments.length - 1, index + 1);
+        break;
+      case "Home":
+        targetIndex = 0;
+        break;
+      case "End":
+        targetIndex = segments.length - 1;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    segmentRefs.current[targetIndex]?.focus();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm text-(--rtv-bubble-muted-text)">
+        <span>Progress</span>
+        <span>{Math.round(getPathProgress(skippedRanges, currentTime, duration) * 100)}%</span>
+      </div>
+      {chapters.length > 0 && (
+        <div className="relative h-5 text-xs text-(--rtv-bubble-muted-text)" aria-hidden="true">
+          {chapters.map((chapter, index) => {
+            const end = chapters[index + 1]?.start ?? duration;
+            return (
+              <span
+                key={chapter.id}
+                className="absolute top-0 pl-1.5 border-l-2 truncate"
+                style={{
+                  left: `${(chapter.start / duration) * 100}%`,
+                  maxWidth: `${((end - chapter.start) / duration) * 100}%`,
+                  borderColor: chapter.isComplete ? primaryColor : "var(--rtv-track-color)",
+                }}
+                title={chapter.title}
+              >
+                {chapter.title}
+              </span>
+            );
+          })}
+        </div>
+      )}
+      <div
+        role="toolbar"
+        aria-label={labels.steps}
+        className="relative flex w-full h-4 bg-white/5 backdrop-blur-sm rounded-full gap-1 shadow-inner"
+      >
+        {segments.map((segment, index) => {
+          const segmentDuration = segment.end - segment.start;
+          const segmentWidth = (segmentDuration / duration) * 100;
+          let progressInSegment = 0;
+          if (currentTime >= segment.end) progressInSegment = 100;
+          else if (currentTime > segment.start)
+            progressInSegment = ((currentTime - segment.start) / segmentDuration) * 100;
+          const isActive = index === activeIndex;
+
+          return (
+            <button
+              key={index}
+              ref={(element) => {
+                segmentRefs.current[index] = element;
+              }}
+              type="button"
+              tabIndex={index === Math.max(activeIndex, 0) ? 0 : -1}
+              aria-label={getAccessibleName(segment)}
+              aria-current={isActive ? "step" : undefined}
+              onClick={() => selectSegment(segment)}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              onMouseEnter={() => setHoveredIndex(index)}
+              onMouseLeave={() => setHoveredIndex(null)}
+              onFocus={() => setHoveredIndex(index)}
+              onBlur={() => setHoveredIndex(null)}
+              className="relative h-full bg-(--rtv-track-color) first:rounded-l-full last:rounded-r-full cursor-pointer hover:opacity-80 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-(--rtv-primary)"
+              style={{ width: `${segmentWidth}%` }}
+            >
+              <div className="absolute inset-0 overflow-hidden rounded-[inherit]">
+                <div
+                  className="h-full transition-all duration-300 ease-out"
+                  style={{ width: `${progressInSegment}%`, backgroundColor: primaryColor }}
+                />
+                {skippedRanges
+                  .filter((range) => range.end > segment.start && range.start < segment.end)
+                  .map((range) => {
+                    const start = Math.max(range.start, segment.start);
+                    const end = Math.min(range.end, segment.end);
+                    return (
+                      <div
+                        key={range.start}
+                        className="absolute inset-y-0 bg-(--rtv-bubble-background)"
+                        style={{
+                          left: `${((start - segment.start) / segmentDuration) * 100}%`,
+                          width: `${((end - start) / segmentDuration) * 100}%`,
+                          backgroundImage:
+                            "repeating-linear-gradient(45deg, transparent, transparent 4px, rgba(255,255,255,0.15) 4px, rgba(255,255,255,0.15) 8px)",
+                        }}
+                      />
+                    );
+                  })}
+              </div>
+              {hoveredIndex === index && (
+                <div
+                  role="tooltip"
+                  className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-56 p-3 bg-(--rtv-bubble-background) border border-(--rtv-bubble-border) text-(--rtv-bubble-text) text-sm text-left rounded-lg shadow-2xl pointer-events-none z-10"
+                >
+                  <p className="line-clamp-2">{getTooltip(segment)}</p>
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SegmentedTimeline;
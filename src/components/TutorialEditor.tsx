@@ -0,0 +1,607 @@
+import React, { useState, useRef, useMemo, useEffect } from "react";
+import {
+  Undo2,
+  Redo2,
+  Plus,
+  Trash2,
+  MousePointer2,
+  Square,
+  Circle,
+  Pentagon,
+  Play,
+  Pause,
+  Eye,
+  Pencil,
+  ChevronLeft,
+  ChevronRight,
+  TriangleAlert,
+} from "lucide-react";
+import { InteractionArea, LocalizedText, TutorialDataError, TutorialJsonData } from "../types";
+import { TutorialVideoPlayer } from "../index";
+import { useUndoableState } from "../hooks/useUndoableState";
+import { parseTutorialData } from "../utils/parseTutorialData";
+import { lintTutorialData } from "../utils/lintTutorialData";
+import { formatVideoTime } from "../utils/timeRanges";
+import {
+  AreaGeometry,
+  addArea,
+  createEmptyTutorialData,
+  createUniqueId,
+  getAreaIds,
+  insertStopPoint,
+  removeArea,
+  removeStopPoint,
+  updateArea,
+  updateStopPoint,
+} from "../utils/editorData";
+import AreaCanvas, { EditorTool } from "@/components/AreaCanvas";
+
+export interface TutorialEditorProps {
+  /** The video to author against. Can be a URL string or a File object, which never leaves the browser. */
+  videoSource: string | File;
+  /**
+   * The tutorial to start from; an empty one if omitted. Later changes are ignored, so remount the
+   * editor (e.g. with a new `key`) to load another tutorial.
+   */
+  initialData?: TutorialJsonData;
+  /**
+   * Callback function triggered with the tutorial after every edit, undo and redo, along with the
+   * errors `parseTutorialData` finds in it. Only data without errors plays in `TutorialVideoPlayer`.
+   */
+  onChange?: (data: TutorialJsonData, errors: TutorialDataError[]) => void;
+  /**
+   * Colors of drawn areas and of the preview.
+   * @default primary: "#3B82F6", secondary: "#8B5CF6"
+   */
+  colors?: {
+    primary?: string;
+    secondary?: string;
+  };
+}
+
+/** The editor treats the video as 30 frames per second when stepping frame by frame. */
+const FRAME_DURATION = 1 / 30;
+/** A stop point is edited while the video is paused within this many seconds of its time. */
+const STOP_TIME_TOLERANCE = 0.05;
+
+const TOOLS: { tool: EditorTool; label: string; Icon: React.ComponentType<{ className?: string }> }[] = [
+  { tool: "select", label: "Select and move", Icon: MousePointer2 },
+  { tool: "box", label: "Draw box", Icon: Square },
+  { tool: "oval", label: "Draw oval", Icon: Circle },
+  { tool: "polygon", label: "Draw polygon (click each corner, then Enter or double-click)", Icon: Pentagon },
+];
+
+const inputClass =
+  "w-full px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-sm text-slate-100 focus:outline-none focus:border-white/40";
+const buttonClass =
+  "flex items-center gap-2 px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium transition-colors disabled:opacity-40 disabled:pointer-events-none";
+const panelClass = "p-4 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl space-y-3";
+
+/** Migrates and normalizes valid data; invalid data is loaded as is so its errors can be fixed in the editor. */
+const loadInitialData = (data: TutorialJsonData | undefined): TutorialJsonData => {
+  if (!data) return createEmptyTutorialData();
+  const result = parseTutorialData(data);
+  return result.ok ? result.data : data;
+};
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Authoring UI for tutorials: scrub the video to a frame, add a stop point there, draw box, oval
+ * and polygon areas on the paused frame, edit their texts, order and next buttons, and preview the
+ * result in `TutorialVideoPlayer`. Every change can be undone.
+ */
+const TutorialEditor: React.FC<TutorialEditorProps> = ({
+  videoSource,
+  initialData,
+  onChange,
+  colors: customColors,
+}) => {
+  const colors = {
+    primary: "#3B82F6", // blue-500
+    secondary: "#8B5CF6", // purple-500
+    ...customColors,
+  };
+
+  const [initialValue] = useState(() => loadInitialData(initialData));
+  const history = useUndoableState(initialValue);
+  const data = history.value;
+  const [tool, setTool] = useState<EditorTool>("select");
+  const [selectedAreaId, setSelectedAreaId] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewCount, setPreviewCount] = useState(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [aspectRatio, setAspectRatio] = useState("16 / 9");
+
+  const videoUrl = useMemo(
+    () => (typeof videoSource === "string" ? videoSource : URL.createObjectURL(videoSource)),
+    [videoSource]
+  );
+  useEffect(() => {
+    return () => {
+      if (videoSource instanceof File) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl, videoSource]);
+
+  const validation = useMemo(() => parseTutorialData(data), [data]);
+  const problems = useMemo(
+    () => [
+      ...validation.errors,
+      ...(validation.data ? lintTutorialData(validation.data, { duration: duration || undefined }) : []),
+    ],
+    [validation, duration]
+  );
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const isInitialData = useRef(true);
+  useEffect(() => {
+    if (isInitialData.current) {
+      isInitialData.current = false;
+      return;
+    }
+    onChangeRef.current?.(data, validation.errors);
+  }, [data]);
+
+  // The stop point on the paused frame is the one being edited.
+  const activeStopPoint = isPlaying
+    ? null
+    : data.stopPoints.find((stopPoint) => Math.abs(stopPoint.time - currentTime) < STOP_TIME_TOLERANCE) ?? null;
+  const selectedArea = activeStopPoint?.areas.find((area) => area.id === selectedAreaId) ?? null;
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    const clampedTime = Math.min(Math.max(time, 0), duration || time);
+    video.currentTime = clampedTime;
+    setCurrentTime(clampedTime);
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  };
+
+  const handleAddStopPoint = () => {
+    const time = Math.round(currentTime * 1000) / 1000;
+    const id = createUniqueId(
+      "stop",
+      data.stopPoints.map((stopPoint) => stopPoint.id)
+    );
+    history.set((current) => insertStopPoint(current, { id, time, areas: [] }));
+    setSelectedAreaId(null);
+    setTool("box");
+  };
+
+  const handleCreateArea = (geometry: AreaGeometry) => {
+    if (!activeStopPoint) return;
+    const id = createUniqueId("area", getAreaIds(data));
+    history.set((current) => addArea(current, activeStopPoint.id, { id, text: "", hasNextButton: true, ...geometry }));
+    setSelectedAreaId(id);
+    setTool("select");
+  };
+
+  const editArea = (update: (area: InteractionArea) => InteractionArea, mergeKey?: string) => {
+    if (!activeStopPoint || !selectedArea) return;
+    history.set((current) => updateArea(current, activeStopPoint.id, selectedArea.id, update), mergeKey);
+  };
+
+  const handleDeleteArea = () => {
+    if (!activeStopPoint || !selectedArea) return;
+    history.set((current) => removeArea(current, activeStopPoint.id, selectedArea.id));
+    setSelectedAreaId(null);
+  };
+
+  const handleStopTimeChange = (value: string) => {
+    const time = Number(value);
+    if (!activeStopPoint || value === "" || !Number.isFinite(time) || time < 0) return;
+    history.set(
+      (current) => updateStopPoint(current, activeStopPoint.id, (stopPoint) => ({ ...stopPoint, time })),
+      `time:${activeStopPoint.id}`
+    );
+    seek(time);
+  };
+
+  // Undo and redo shortcuts, left to the browser inside text fields so typing can be undone there.
+  useEffect(() => {
+    if (isPreviewing) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isEditableTarget(e.target)) return;
+      const isModifier = e.metaKey || e.ctrlKey;
+      const key = e.key.toLowerCase();
+      if (isModifier && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) history.redo();
+        else history.undo();
+      } else if (isModifier && key === "y") {
+        e.preventDefault();
+        history.redo();
+      } else if ((e.key === "Delete" || e.key === "Backspace") && selectedArea) {
+        e.preventDefault();
+        handleDeleteArea();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const renderTextFields = (text: LocalizedText) => {
+    if (typeof text === "string") {
+      return (
+        <textarea
+          value={text}
+          rows={3}
+          placeholder="What should the user do here?"
+          onChange={(e) => editArea((area) => ({ ...area, text: e.target.value }), `text:${selectedAreaId}`)}
+          className={inputClass}
+          aria-label="Text"
+        />
+      );
+    }
+    return Object.entries(text).map(([locale, translation]) => (
+      <label key={locale} className="block space-y-1">
+        <span className="text-xs text-slate-400">{locale}</span>
+        <textarea
+          value={translation}
+          rows={2}
+          onChange={(e) =>
+            editArea(
+              (area) => ({ ...area, text: { ...(area.text as Record<string, string>), [locale]: e.target.value } }),
+              `text:${selectedAreaId}:${locale}`
+            )
+          }
+          className={inputClass}
+        />
+      </label>
+    ));
+  };
+
+  const renderAreaForm = (area: InteractionArea) => (
+    <div className="space-y-3 pt-3 border-t border-white/10">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">
+          {area.type} <span className="font-mono text-slate-400">{area.id}</span>
+        </h4>
+        <button onClick={handleDeleteArea} className={buttonClass} aria-label="Delete area">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      {renderTextFields(area.text)}
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          Order
+          <input
+            type="number"
+            step={1}
+            value={area.order}
+            onChange={(e) => {
+              const order = Number(e.target.value);
+              if (e.target.value !== "" && Number.isFinite(order)) {
+                editArea((current) => ({ ...current, order }), `order:${area.id}`);
+              }
+            }}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={area.hasNextButton}
+            onChange={(e) => editArea((current) => ({ ...current, hasNextButton: e.target.checked }))}
+            style={{ accentColor: colors.primary }}
+          />
+          Next button
+        </label>
+      </div>
+      {area.type !== "polygon" && area.box && (
+        <div className="grid grid-cols-4 gap-2">
+          {(["x", "y", "width", "height"] as const).map((key) => (
+            <label key={key} className="block space-y-1">
+              <span className="text-xs text-slate-400">{key}</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.01}
+                value={Math.round(area.box![key] * 1000) / 1000}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (e.target.value === "" || !Number.isFinite(value)) return;
+                  editArea(
+                    (current) =>
+                      current.type === "polygon" || !current.box
+                        ? current
+                        : { ...current, box: { ...current.box, [key]: value } },
+                    `box:${area.id}:${key}`
+                  );
+                }}
+                className={`${inputClass} px-2`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      {!area.hasNextButton && area.type !== "quiz" && (
+        <p className="text-xs text-slate-400">Without a next button, the user continues by clicking the area.</p>
+      )}
+    </div>
+  );
+
+  const hasStopPointAtTime = activeStopPoint !== null;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-4 text-slate-100">
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl">
+        {!isPreviewing && (
+          <>
+            <div role="group" aria-label="Tools" className="flex gap-1">
+              {TOOLS.map(({ tool: value, label, Icon }) => (
+                <button
+                  key={value}
+                  onClick={() => setTool(value)}
+                  disabled={value !== "select" && !activeStopPoint}
+                  aria-pressed={tool === value}
+                  aria-label={label}
+                  title={label}
+                  className={buttonClass}
+                  style={tool === value ? { background: colors.primary } : undefined}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              ))}
+            </div>
+            <div className="w-px h-6 bg-white/10 mx-1" />
+            <button onClick={history.undo} disabled={!history.canUndo} className={buttonClass} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" /> Undo
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={!history.canRedo}
+              className={buttonClass}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" /> Redo
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => {
+            videoRef.current?.pause();
+            setPreviewCount((count) => count + 1);
+            setIsPreviewing((previewing) => !previewing);
+          }}
+          className={`${buttonClass} ms-auto`}
+        >
+          {isPreviewing ? <Pencil className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          {isPreviewing ? "Back to editing" : "Preview"}
+        </button>
+      </div>
+
+      {isPreviewing ? (
+        <TutorialVideoPlayer
+          key={previewCount}
+          videoSource={videoSource}
+          tutorialData={data}
+          colors={colors}
+          uniqueKey={`tutorial-editor-preview-${previewCount}`}
+        />
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_20rem]">
+          <div className="space-y-3">
+            <div
+              className="relative w-full bg-black rounded-lg overflow-hidden border border-white/10"
+              style={{ aspectRatio }}
+            >
+              <video
+                ref={videoRef}
+                src={videoUrl}
+                preload="auto"
+                playsInline
+                className="absolute inset-0 w-full h-full"
+                onLoadedMetadata={(e) => {
+                  const video = e.currentTarget;
+                  setDuration(video.duration);
+                  if (video.videoWidth && video.videoHeight) {
+                    setAspectRatio(`${video.videoWidth} / ${video.videoHeight}`);
+                  }
+                }}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+              />
+              {activeStopPoint && (
+                <AreaCanvas
+                  areas={activeStopPoint.areas}
+                  selectedAreaId={selectedAreaId}
+                  tool={tool}
+                  primaryColor={colors.primary}
+                  onSelect={setSelectedAreaId}
+                  onCreate={handleCreateArea}
+                  onChange={(areaId, geometry, dragId) =>
+                    history.set(
+                      (current) =>
+                        updateArea(
+                          current,
+                          activeStopPoint.id,
+                          areaId,
+                          (area) => ({ ...area, ...geometry } as InteractionArea)
+                        ),
+                      dragId
+                    )
+                  }
+                />
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button onClick={togglePlay} className={buttonClass} aria-label={isPlaying ? "Pause" : "Play"}>
+                {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => seek(currentTime - FRAME_DURATION)}
+                className={buttonClass}
+                aria-label="Previous frame"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => seek(currentTime + FRAME_DURATION)}
+                className={buttonClass}
+                aria-label="Next frame"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+              <div className="relative flex-1">
+                <input
+                  type="range"
+                  min={0}
+                  max={duration || 0}
+                  step={0.001}
+                  value={currentTime}
+                  onChange={(e) => seek(Number(e.target.value))}
+                  className="w-full"
+                  style={{ accentColor: colors.primary }}
+                  aria-label="Video position"
+                />
+                {duration > 0 &&
+                  data.stopPoints.map((stopPoint) => (
+                    <span
+                      key={stopPoint.id}
+                      className="absolute -top-2 w-2 h-2 -translate-x-1/2 rounded-full pointer-events-none"
+                      style={{ left: `${(stopPoint.time / duration) * 100}%`, background: colors.secondary }}
+                      aria-hidden="true"
+                    />
+                  ))}
+              </div>
+              <span className="text-sm tabular-nums text-slate-300">
+                {formatVideoTime(currentTime)} / {formatVideoTime(duration)}
+              </span>
+            </div>
+
+            <p className="text-sm text-slate-400">
+              {!activeStopPoint
+                ? "Pause on a frame and add a stop point to draw areas on it."
+                : tool === "select"
+                ? "Click an area to edit it, drag it to move it and drag its handles to reshape it."
+                : "Draw the area on the video."}
+            </p>
+          </div>
+
+          <div className="space-y-4">
+            <section className={panelClass}>
+              <h3 className="font-semibold">Stop points</h3>
+              <ul className="space-y-1">
+                {data.stopPoints.map((stopPoint) => (
+                  <li key={stopPoint.id}>
+                    <button
+                      onClick={() => {
+                        seek(stopPoint.time);
+                        setSelectedAreaId(null);
+                      }}
+                      aria-current={stopPoint.id === activeStopPoint?.id}
+                      className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left hover:bg-white/10"
+                      style={stopPoint.id === activeStopPoint?.id ? { background: `${colors.primary}40` } : undefined}
+                    >
+                      <span className="font-mono truncate">{stopPoint.id}</span>
+                      <span className="tabular-nums text-slate-400">
+                        {formatVideoTime(stopPoint.time)} · {stopPoint.areas.length}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={handleAddStopPoint}
+                disabled={isPlaying || hasStopPointAtTime}
+                className={`${buttonClass} w-full justify-center`}
+              >
+                <Plus className="w-4 h-4" /> Add stop point at {formatVideoTime(Math.round(currentTime * 1000) / 1000)}
+              </button>
+            </section>
+
+            {activeStopPoint && (
+              <section className={panelClass}>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">
+                    Stop point <span className="font-mono text-slate-400">{activeStopPoint.id}</span>
+                  </h3>
+                  <button
+                    onClick={() => {
+                      history.set((current) => removeStopPoint(current, activeStopPoint.id));
+                      setSelectedAreaId(null);
+                    }}
+                    className={buttonClass}
+                    aria-label="Delete stop point"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  Time (s)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={activeStopPoint.time}
+                    onChange={(e) => handleStopTimeChange(e.target.value)}
+                    className={`${inputClass} w-28`}
+                  />
+                </label>
+                <ul className="space-y-1">
+                  {activeStopPoint.areas.map((area) => (
+                    <li key={area.id}>
+                      <button
+                        onClick={() => setSelectedAreaId(area.id)}
+                        aria-current={area.id === selectedAreaId}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left hover:bg-white/10"
+                        style={area.id === selectedAreaId ? { background: `${colors.primary}40` } : undefined}
+                      >
+                        <span className="tabular-nums text-slate-400">{area.order}</span>
+                        <span className="truncate">
+                          {(typeof area.text === "string" ? area.text : Object.values(area.text)[0]) || (
+                            <em className="text-slate-500">No text</em>
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {selectedArea && renderAreaForm(selectedArea)}
+              </section>
+            )}
+
+            <section className={panelClass} aria-live="polite">
+              <h3 className="flex items-center gap-2 font-semibold">
+                {problems.length > 0 && <TriangleAlert className="w-4 h-4 text-amber-400" />}
+                Problems
+              </h3>
+              {problems.length === 0 ? (
+                <p className="text-sm text-slate-400">No problems found.</p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {problems.map((problem, index) => (
+                    <li key={index}>
+                      <span className="font-mono text-slate-400">{problem.path}</span> {problem.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TutorialEditor;
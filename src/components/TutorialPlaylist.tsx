@@ -0,0 +1,341 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { Check, Play, RefreshCw } from "lucide-react";
+import { LocalizedText, TutorialJsonData } from "../types";
+import {
+  CompleteScreenProps,
+  TutorialPlayerState,
+  TutorialVideoPlayer,
+  TutorialVideoPlayerHandle,
+  TutorialVideoPlayerProps,
+} from "../index";
+import { usePlaylistProgress } from "../hooks/usePlaylistProgress";
+import { useTutorialTheme } from "../hooks/useTutorialTheme";
+import { getLocaleChain, resolveLocalizedText } from "../utils/localization";
+import { themeToCssVariables } from "../utils/theme";
+
+export interface TutorialLesson {
+  id: string;
+  title: LocalizedText;
+  videoSource: string | File;
+  tutorialData: TutorialJsonData;
+}
+
+export interface TutorialPlaylistProps
+  extends Omit<TutorialVideoPlayerProps, "videoSource" | "tutorialData" | "uniqueKey" | "onTutorialComplete"> {
+  /** The lessons of the course, in order. */
+  lessons: TutorialLesson[];
+  /**
+   * What happens when a lesson's video ends: `"auto"` starts the next lesson right away, `"confirm"`
+   * shows a screen to continue with the next lesson or replay this one.
+   * @default "confirm"
+   */
+  advance?: "auto" | "confirm";
+  /**
+   * Identifies the course. With `progressStorage`, the current lesson and the progress of every lesson
+   * are saved under this key, and each lesson's position under the key and the lesson's id.
+   */
+  uniqueKey?: string;
+  /**
+   * Custom labels of the playlist's UI.
+   * @default lessons: "Lessons", lessonProgress: "Lesson {current} of {total}", lessonComplete: "Lesson complete!",
+   * courseComplete: "Course complete!", nextLesson: "Next: {title}", replayLesson: "Replay lesson",
+   * replayCourse: "Replay course", steps: "{completed} of {total} steps"
+   */
+  playlistLabels?: Partial<TutorialPlaylistLabels>;
+  /** Callback function triggered when another lesson is shown. */
+  onLessonChange?: (lesson: TutorialLesson, lessonIndex: number) => void;
+  /** Callback function triggered when the video of a lesson ends. */
+  onLessonComplete?: (lesson: TutorialLesson) => void;
+  /** Callback function triggered when the video of the last lesson ends. */
+  onPlaylistComplete?: () => void;
+}
+
+export interface TutorialPlaylistLabels {
+  lessons: string;
+  /** `{current}` and `{total}` are replaced with lesson numbers. */
+  lessonProgress: string;
+  lessonComplete: string;
+  courseComplete: string;
+  /** `{title}` is replaced with the title of the next lesson. */
+  nextLesson: string;
+  replayLesson: string;
+  replayCourse: string;
+  /** `{completed}` and `{total}` are replaced with numbers of stop points. */
+  steps: string;
+}
+
+interface PlaylistScreenContext {
+  labels: TutorialPlaylistLabels;
+  /** Title of the lesson after the current one, or null for the last lesson. */
+  nextLessonTitle: string | null;
+  onNextLesson: () => void;
+  onReplayCourse: () => void;
+}
+
+// The complete screen is rendered by the player, so it gets the playlist's state through context.
+const PlaylistScreenContext = createContext<PlaylistScreenContext | null>(null);
+
+const LessonCompleteScreen: React.FC<CompleteScreenProps> = ({ colors, onReplay }) => {
+  const playlist = useContext(PlaylistScreenContext);
+  if (!playlist) return null;
+  const { labels, nextLessonTitle } = playlist;
+  return (
+    <div className="absolute inset-0 bg-gradient-to-br from-black/70 to-black/50 backdrop-blur-sm flex items-center justify-center">
+      <div className="flex flex-col items-center gap-4 text-center">
+        <h3 className="text-3xl font-bold text-white mb-2">
+          {nextLessonTitle === null ? labels.courseComplete : labels.lessonComplete}
+        </h3>
+        {nextLessonTitle !== null && (
+          <button
+            data-autofocus
+            onClick={playlist.onNextLesson}
+            className="flex items-center gap-3 px-8 py-4 font-bold text-lg text-(--rtv-button-text) rounded-(--rtv-button-radius) shadow-lg transition-all duration-300 motion-safe:hover:scale-105"
+            style={{ background: `linear-gradient(to right, ${colors.primary}, ${colors.secondary})` }}
+          >
+            <Play className="w-6 h-6" /> {labels.nextLesson.replace("{title}", nextLessonTitle)}
+          </button>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={onReplay}
+            className="flex items-center gap-2 px-6 py-3 bg-white/10 text-white font-semibold rounded-xl hover:bg-white/20 transition-all duration-300"
+          >
+            <RefreshCw className="w-5 h-5" /> {labels.replayLesson}
+          </button>
+          {nextLessonTitle === null && (
+            <button
+              onClick={playlist.onReplayCourse}
+              className="flex items-center gap-2 px-6 py-3 bg-white/10 text-white font-semibold rounded-xl hover:bg-white/20 transition-all duration-300"
+            >
+              <RefreshCw className="w-5 h-5" /> {labels.replayCourse}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatSteps = (label: string, completed: number, total: number) =>
+  label.replace("{completed}", String(completed)).replace("{total}", String(total));
+
+/**
+ * Plays a course made of several tutorial videos, one lesson after another, with the progress of the
+ * whole course and a list of lessons to move between them. All player props apply to every lesson.
+ */
+const TutorialPlaylist: React.FC<TutorialPlaylistProps> = ({
+  lessons,
+  advance = "confirm",
+  uniqueKey,
+  playlistLabels,
+  onLessonChange,
+  onLessonComplete,
+  onPlaylistComplete,
+  onStateChange,
+  ...playerProps
+}) => {
+  const labels: TutorialPlaylistLabels = {
+    lessons: "Lessons",
+    lessonProgress: "Lesson {current} of {total}",
+    lessonComplete: "Lesson complete!",
+    courseComplete: "Course complete!",
+    nextLesson: "Next: {title}",
+    replayLesson: "Replay lesson",
+    replayCourse: "Replay course",
+    steps: "{completed} of {total} steps",
+    ...playlistLabels,
+  };
+  const { locale = "en", fallbackLocales = ["en"], progressStorage } = playerProps;
+  const theme = useTutorialTheme(playerProps.theme, playerProps.colors);
+  const localeChain = useMemo(() => getLocaleChain(locale, fallbackLocales), [locale, fallbackLocales.join()]);
+  const lessonTitles = lessons.map((lesson) => resolveLocalizedText(lesson.title, localeChain));
+
+  const playerRef = useRef<TutorialVideoPlayerHandle>(null);
+  // Set when the next lesson should start as soon as its video is ready, e.g. after "Next lesson".
+  const shouldAutoStart = useRef(false);
+  const [lessonIndex, setLessonIndex] = useState(0);
+  // Incremented to remount the player, so replaying the course also restarts the current lesson.
+  const [runId, setRunId] = useState(0);
+  const [completedLessonIds, setCompletedLessonIds] = useState<string[]>([]);
+  const [completedStopPointIds, setCompletedStopPointIds] = useState<Record<string, string[]>>({});
+
+  const progress = usePlaylistProgress(progressStorage, uniqueKey);
+  const isRestored = useRef(false);
+  useEffect(() => {
+    if (!progress.isLoaded || isRestored.current) return;
+    isRestored.current = true;
+    const saved = progress.savedProgress;
+    if (!saved) return;
+    const savedIndex = lessons.findIndex((lesson) => lesson.id === saved.lessonId);
+    if (savedIndex >= 0) setLessonIndex(savedIndex);
+    setCompletedLessonIds(saved.completedLessonIds);
+    setCompletedStopPointIds(saved.completedStopPointIds);
+  }, [progress.isLoaded, progress.savedProgress, lessons]);
+
+  const lesson = lessons[Math.min(lessonIndex, lessons.length - 1)];
+  const lessonId = lesson?.id ?? null;
+  useEffect(() => {
+    if (!isRestored.current) return;
+    progress.save({ lessonId, completedLessonIds, completedStopPointIds });
+  }, [lessonId, completedLessonIds, completedStopPointIds, progress.save]);
+
+  useEffect(() => {
+    if (lesson && isRestored.current) onLessonChange?.(lesson, lessonIndex);
+  }, [lessonId, runId]);
+
+  const goToLesson = useCallback(
+    (index: number, autoStart: boolean) => {
+      if (index < 0 || index >= lessons.length) return;
+      shouldAutoStart.current = autoStart;
+      setLessonIndex(index);
+    },
+    [lessons.length]
+  );
+
+  const replayCourse = useCallback(() => {
+    progress.clear();
+    setCompletedLessonIds([]);
+    setCompletedStopPointIds({});
+    shouldAutoStart.current = true;
+    setLessonIndex(0);
+    setRunId((id) => id + 1);
+  }, [progress.clear]);
+
+  const handleStateChange = (state: TutorialPlayerState) => {
+    onStateChange?.(state);
+    if (!lesson) return;
+    // Course progress keeps what was completed before, also when a lesson is replayed.
+    const known = completedStopPointIds[lesson.id] ?? [];
+    const added = state.completedStopPointIds.filter((id) => !known.includes(id));
+    if (added.length > 0) setCompletedStopPointIds((current) => ({ ...current, [lesson.id]: [...known, ...added] }));
+    // The player can only start once its video has loaded, which is when the duration becomes known.
+    if (shouldAutoStart.current && state.status === "idle" && state.duration > 0) {
+      shouldAutoStart.current = false;
+      playerRef.current?.play();
+    }
+  };
+
+  const handleLessonComplete = () => {
+    if (!lesson) return;
+    setCompletedLessonIds((ids) => (ids.includes(lesson.id) ? ids : [...ids, lesson.id]));
+    onLessonComplete?.(lesson);
+    const isLast = lessonIndex === lessons.length - 1;
+    if (isLast) onPlaylistComplete?.();
+    else if (advance === "auto") goToLesson(lessonIndex + 1, true);
+  };
+
+  const getLessonSteps = (candidate: TutorialLesson) => {
+    const total = candidate.tutorialData.stopPoints.length;
+    const completed = completedLessonIds.includes(candidate.id)
+      ? total
+      : Math.min(total, completedStopPointIds[candidate.id]?.length ?? 0);
+    return { completed, total };
+  };
+  const courseSteps = lessons.map(getLessonSteps);
+  const completedSteps = courseSteps.reduce((sum, steps) => sum + steps.completed, 0);
+  const totalSteps = courseSteps.reduce((sum, steps) => sum + steps.total, 0);
+  // A course without any stop points progresses by the lessons watched to the end.
+  const courseProgress =
+    totalSteps > 0 ? completedSteps / totalSteps : completedLessonIds.length / Math.max(1, lessons.length);
+
+  const screenContext: PlaylistScreenContext = {
+    labels,
+    nextLessonTitle: lessonIndex < lessons.length - 1 ? lessonTitles[lessonIndex + 1] : null,
+    onNextLesson: () => goToLesson(lessonIndex + 1, true),
+    onReplayCourse: replayCourse,
+  };
+
+  if (!lesson) return null;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-6" style={themeToCssVariables(theme) as React.CSSProperties}>
+      <div className="p-6 space-y-3 bg-(--rtv-panel-background) backdrop-blur-xl border border-(--rtv-panel-border) rounded-(--rtv-bubble-radius)">
+        <div className="flex items-center justify-between gap-4 text-sm text-(--rtv-bubble-muted-text)">
+          <span>
+            {labels.lessonProgress
+              .replace("{current}", String(lessonIndex + 1))
+              .replace("{total}", String(lessons.length))}
+            {" · "}
+            <span className="font-semibold text-(--rtv-bubble-text)">{lessonTitles[lessonIndex]}</span>
+          </span>
+          <span>{Math.round(courseProgress * 100)}%</span>
+        </div>
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(courseProgress * 100)}
+          className="h-2 rounded-full bg-(--rtv-track-color) overflow-hidden"
+        >
+          <div
+            className="h-full rounded-full transition-all duration-300 ease-out"
+            style={{ width: `${courseProgress * 100}%`, backgroundColor: theme.primary }}
+          />
+        </div>
+      </div>
+
+      {progress.isLoaded ? (
+        <PlaylistScreenContext.Provider value={screenContext}>
+          <TutorialVideoPlayer
+            {...playerProps}
+            key={`${lesson.id}-${runId}`}
+            ref={playerRef}
+            videoSource={lesson.videoSource}
+            tutorialData={lesson.tutorialData}
+            uniqueKey={uniqueKey ? `${uniqueKey}:${lesson.id}` : lesson.id}
+            components={{ ...playerProps.components, CompleteScreen: LessonCompleteScreen }}
+            onStateChange={handleStateChange}
+            onTutorialComplete={handleLessonComplete}
+          />
+        </PlaylistScreenContext.Provider>
+      ) : (
+        <div className="w-full aspect-video bg-black rounded-lg" />
+      )}
+
+      <nav
+        aria-label={labels.lessons}
+        className="p-4 bg-(--rtv-panel-background) backdrop-blur-xl border border-(--rtv-panel-border) rounded-(--rtv-bubble-radius)"
+      >
+        <ol className="space-y-1">
+          {lessons.map((candidate, index) => {
+            const { completed, total } = courseSteps[index];
+            const isComplete = completedLessonIds.includes(candidate.id);
+            const isCurrent = index === lessonIndex;
+            return (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => !isCurrent && goToLesson(index, false)}
+                  aria-current={isCurrent ? "step" : undefined}
+                  className={`w-full flex items-center gap-3 p-3 text-start text-(--rtv-bubble-text) rounded-(--rtv-button-radius) hover:bg-current/5 focus-visible:outline-2 focus-visible:outline-(--rtv-primary) ${
+                    isCurrent ? "bg-current/10" : ""
+                  }`}
+                >
+                  <span
+                    className="flex-none flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold"
+                    style={
+                      isComplete
+                        ? { background: theme.primary, color: "var(--rtv-button-text)" }
+                        : { boxShadow: `inset 0 0 0 2px ${isCurrent ? theme.primary : "var(--rtv-track-color)"}` }
+                    }
+                    aria-hidden="true"
+                  >
+                    {isComplete ? <Check className="w-4 h-4" /> : index + 1}
+                  </span>
+                  <span className="flex-1 min-w-0 font-semibold truncate">{lessonTitles[index]}</span>
+                  {total > 0 && (
+                    <span className="flex-none text-xs text-(--rtv-bubble-muted-text)">
+                      {formatSteps(labels.steps, completed, total)}
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+    </div>
+  );
+};
+
+export default TutorialPlaylist;
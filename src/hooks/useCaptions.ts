@@ -0,0 +1,46 @@
+// hooks/useCaptions.ts
+import { useState, useEffect } from "react";
+import { CaptionTrack, WebVttCue } from "../types";
+import { parseWebVtt } from "../utils/webvtt";
+
+const matchesLocale = (srclang: string | undefined, locale: string) => {
+  const language = srclang?.toLowerCase();
+  return language === locale.toLowerCase() || language?.split("-")[0] === locale.toLowerCase();
+};
+
+/** Picks the track of the first locale in `localeChain` that has one, then the default track, then the first. */
+const pickCaptionTrack = (tracks: CaptionTrack[], localeChain: string[]): CaptionTrack | null => {
+  for (const locale of localeChain) {
+    const track = tracks.find(({ srclang }) => matchesLocale(srclang, locale));
+    if (track) return track;
+  }
+  return tracks.find((track) => track.default) ?? tracks[0] ?? null;
+};
+
+/**
+ * Fetches and parses the captions track matching the locale. `cues` is null until the track has
+ * loaded, and stays null if there is no track or it fails to load, as captions are optional.
+ */
+export const useCaptions = (tracks: CaptionTrack[], localeChain: string[]) => {
+  const track = pickCaptionTrack(tracks, localeChain);
+  const src = track?.src ?? null;
+  const [cues, setCues] = useState<WebVttCue[] | null>(null);
+
+  useEffect(() => {
+    setCues(null);
+    if (!src) return;
+    // Ignore a response that arrives after the track changed.
+    let isCancelled = false;
+    fetch(src)
+      .then((response) => (response.ok ? response.text() : Promise.reject(new Error(response.statusText))))
+      .then((text) => {
+        if (!isCancelled) setCues(parseWebVtt(text));
+      })
+      .catch(() => {});
+    return () => {
+      isCancelled = true;
+    };
+  }, [src]);
+
+  return { track, cues };
+};
@@ -0,0 +1,48 @@
+// hooks/useFocusTrap.ts
+import { useEffect, RefObject } from "react";
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * While `active`, moves focus into the container and keeps Tab / Shift+Tab cycling inside it.
+ * Focus returns to the previously focused element when the trap is released.
+ */
+export const useFocusTrap = (containerRef: RefObject<HTMLElement | null>, active: boolean) => {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    const getFocusable = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
+    // Prefer an element that asks for initial focus, e.g. the bubble's next button.
+    const initial = container.querySelector<HTMLElement>("[data-autofocus]") ?? getFocusable()[0] ?? container;
+    initial.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Tab") return;
+      const focusable = getFocusable();
+      if (focusable.length === 0) {
+        e.preventDefault();
+        container.focus();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === first || document.activeElement === container)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    container.addEventListener("keydown", handleKeyDown);
+    return () => {
+      container.removeEventListener("keydown", handleKeyDown);
+      if (previouslyFocused?.isConnected) previouslyFocused.focus();
+    };
+  }, [containerRef, active]);
+};
@@ -0,0 +1,47 @@
+// hooks/useFullscreen.ts
+import { useState, useEffect, useCallback, RefObject } from "react";
+
+// `lock()` is missing from TypeScript's DOM types and unsupported in some browsers, e.g. iOS Safari.
+type LockableOrientation = ScreenOrientation & { lock?: (orientation: "landscape") => Promise<void> };
+
+/**
+ * Puts the element in fullscreen and, where the browser allows it, locks the screen to landscape
+ * so phones show the video as large as possible.
+ */
+export const useFullscreen = (elementRef: RefObject<HTMLElement | null>) => {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const isSupported = typeof document !== "undefined" && document.fullscreenEnabled === true;
+
+  useEffect(() => {
+    const handleChange = () => {
+      setIsFullscreen(document.fullscreenElement !== null && document.fullscreenElement === elementRef.current);
+    };
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, [elementRef]);
+
+  const enter = useCallback(async () => {
+    const element = elementRef.current;
+    if (!element?.requestFullscreen) return;
+    try {
+      await element.requestFullscreen();
+      await (screen.orientation as LockableOrientation | undefined)?.lock?.("landscape");
+    } catch {
+      // Fullscreen was denied or the orientation cannot be locked; the video still plays inline.
+    }
+  }, [elementRef]);
+
+  const exit = useCallback(async () => {
+    if (!document.fullscreenElement) return;
+    try {
+      screen.orientation?.unlock();
+      await document.exitFullscreen();
+    } catch {
+      // Already left fullscreen, e.g. through the browser UI.
+    }
+  }, []);
+
+  const toggle = useCallback(() => (isFullscreen ? exit() : enter()), [isFullscreen, enter, exit]);
+
+  return { isFullscreen, isSupported, enter, exit, toggle };
+};
@@ -0,0 +1,28 @@
+// hooks/useMediaFrameTime.ts
+import { useState, useEffect, RefObject } from "react";
+
+/**
+ * While `active`, returns the media element's current time and re-renders on every animation frame,
+ * for motion that must follow the video more closely than `timeupdate` events allow. Returns
+ * `fallbackTime` while inactive.
+ */
+export const useMediaFrameTime = (
+  mediaRef: RefObject<HTMLMediaElement | null>,
+  active: boolean,
+  fallbackTime: number
+): number => {
+  const [time, setTime] = useState(fallbackTime);
+
+  useEffect(() => {
+    if (!active) return;
+    let frame = 0;
+    const tick = () => {
+      if (mediaRef.current) setTime(mediaRef.current.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [mediaRef, active]);
+
+  return active ? time : fallbackTime;
+};
@@ -0,0 +1,57 @@
+// hooks/usePlaylistProgress.ts
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { TutorialPlaylistProgress } from "../types";
+import {
+  clearProgress,
+  getPlaylistStorageKey,
+  loadPlaylistProgress,
+  resolveProgressStorage,
+  saveProgress,
+} from "../utils/progress";
+import { ProgressStorageOption } from "./useTutorialProgress";
+
+/**
+ * Loads and saves the progress of a playlist under `uniqueKey`, like `useTutorialProgress` does for a
+ * single tutorial. `isLoaded` turns true once stored progress was read, or right away without storage.
+ */
+export const usePlaylistProgress = (
+  storageOption: ProgressStorageOption | undefined,
+  uniqueKey: string | undefined
+) => {
+  const [savedProgress, setSavedProgress] = useState<TutorialPlaylistProgress | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const storage = useMemo(() => (storageOption ? resolveProgressStorage(storageOption) : null), [storageOption]);
+  const key = uniqueKey ? getPlaylistStorageKey(uniqueKey) : null;
+
+  useEffect(() => {
+    setSavedProgress(null);
+    if (!storage || !key) {
+      setIsLoaded(true);
+      return;
+    }
+    setIsLoaded(false);
+    let isCancelled = false;
+    loadPlaylistProgress(storage, key).then((progress) => {
+      if (isCancelled) return;
+      setSavedProgress(progress);
+      setIsLoaded(true);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [storage, key]);
+
+  const save = useCallback(
+    (progress: Omit<TutorialPlaylistProgress, "updatedAt">) => {
+      if (!storage || !key) return;
+      saveProgress(storage, key, { ...progress, updatedAt: Date.now() });
+    },
+    [storage, key]
+  );
+
+  const clear = useCallback(() => {
+    if (storage && key) clearProgress(storage, key);
+  }, [storage, key]);
+
+  return { savedProgress, isLoaded, save, clear };
+};
@@ -0,0 +1,152 @@
+// hooks/useTutorialEngine.ts
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import {
+  SkippedStopPolicy,
+  TutorialEngineAction,
+  TutorialEngineEvent,
+  TutorialJsonData,
+  TutorialMediaAdapter,
+  TutorialProgress,
+} from "../types";
+import {
+  initialTutorialEngineState,
+  isAtStopPoint,
+  reduceTutorialEngine,
+  TutorialEngineContext,
+} from "../utils/tutorialEngine";
+import { isOverlayStopPoint } from "../utils/stopPoints";
+
+export interface TutorialEngineOptions {
+  /**
+   * Which stop points to trigger when the user seeks forward past one or more of them.
+   * @default "last"
+   */
+  skippedStopPolicy?: SkippedStopPolicy;
+  /**
+   * Milliseconds between completing an area and showing the next one, e.g. to let a bubble fade out.
+   * @default 300
+   */
+  transitionDuration?: number;
+  /**
+   * Seconds before its time at which a stop point may pause the video. The video stops on the last frame
+   * at or before the stop point, or earlier within this tolerance.
+   * @default 0.05
+   */
+  stopTolerance?: number;
+  /** Receives the engine's notifications, e.g. to call analytics or `onTutorialComplete`. */
+  onEvent?: (event: TutorialEngineEvent) => void;
+}
+
+/**
+ * Runs the tutorial state machine against a media element, so any UI can be built on top of it.
+ * Media events are fed to `reduceTutorialEngine` and the effects it returns are run on `media`.
+ * The engine resets whenever `tutorialData` changes.
+ */
+export const useTutorialEngine = (
+  tutorialData: TutorialJsonData | null,
+  media: TutorialMediaAdapter | null,
+  options: TutorialEngineOptions = {}
+) => {
+  const { skippedStopPolicy = "last", transitionDuration = 300, stopTolerance = 0.05 } = options;
+  const [state, setState] = useState(initialTutorialEngineState);
+  // Actions dispatched from the same event must see each other's results before React re-renders.
+  const stateRef = useRef(state);
+  const contextRef = useRef<TutorialEngineContext>({
+    stopPoints: [],
+    skippedStopPolicy,
+    transitionDuration,
+    stopTolerance,
+    now: Date.now,
+  });
+  contextRef.current = {
+    stopPoints: tutorialData?.stopPoints ?? [],
+    skippedStopPolicy,
+    transitionDuration,
+    stopTolerance,
+    now: Date.now,
+  };
+  const mediaRef = useRef(media);
+  mediaRef.current = media;
+  const onEventRef = useRef(options.onEvent);
+  onEventRef.current = options.onEvent;
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const dispatch = useCallback((action: TutorialEngineAction) => {
+    const { state: nextState, effects } = reduceTutorialEngine(stateRef.current, action, contextRef.current);
+    stateRef.current = nextState;
+    setState(nextState);
+    effects.forEach((effect) => {
+      switch (effect.type) {
+        case "play":
+          mediaRef.current?.play();
+          break;
+        case "pause":
+          mediaRef.current?.pause();
+          break;
+        case "seek":
+          mediaRef.current?.seek(effect.time);
+          break;
+        case "schedule": {
+          const timer = setTimeout(() => {
+            timers.current.delete(timer);
+            dispatch(effect.action);
+          }, effect.delay);
+          timers.current.add(timer);
+          break;
+        }
+        case "notify":
+          onEventRef.current?.(effect.event);
+          break;
+      }
+    });
+  }, []);
+
+  useEffect(() => media?.subscribe(dispatch), [media, dispatch]);
+
+  // `timeUpdate` events come too rarely to stop on the right frame, so the media reports the next pausing
+  // stop point itself where it can.
+  const { status, stopPointIndex, isSeeking } = state;
+  useEffect(() => {
+    if (!media?.scheduleAt || status !== "playing" || isSeeking) return;
+    const nextStop = tutorialData?.stopPoints.slice(stopPointIndex).find((stopPoint) => !isOverlayStopPoint(stopPoint));
+    if (!nextStop) return;
+    return media.scheduleAt(nextStop.time, stopTolerance, () => dispatch({ type: "timeUpdate", time: nextStop.time }));
+  }, [media, tutorialData, status, stopPointIndex, isSeeking, stopTolerance, dispatch]);
+
+  useEffect(() => {
+    dispatch({ type: "reset" });
+  }, [tutorialData, dispatch]);
+
+  useEffect(() => {
+    const pendingTimers = timers.current;
+    return () => pendingTimers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const actions = useMemo(
+    () => ({
+      start: () => dispatch({ type: "start" }),
+      resume: (progress: Pick<TutorialProgress, "completedStopPointIds" | "activeStopPointId" | "time">) =>
+        dispatch({ type: "resume", progress }),
+      /** Plays the video, or resumes a paused auto-advance countdown at a stop point. */
+      play: () => dispatch({ type: "play", requested: true }),
+      /** Pauses the video, or the auto-advance countdown at a stop point, e.g. while a modal is open. */
+      pause: () => dispatch({ type: "pause", requested: true }),
+      /** Completes the shown area, or jumps to the next stop point if none is active. */
+      next: () => dispatch({ type: "next" }),
+      /** Completes a branch choice with the area at `areaIndex`. */
+      choose: (areaIndex: number) => dispatch({ type: "choose", areaIndex }),
+      /** Marks an area of an explore stop point as visited, which continues once all required areas are. */
+      visit: (areaIndex: number) => dispatch({ type: "visit", areaIndex }),
+      previous: () => dispatch({ type: "previous" }),
+      jumpToStop: (stopPointIndex: number, areaIndex?: number) =>
+        dispatch({ type: "jumpToStop", stopPointIndex, areaIndex }),
+      jumpToStart: () => dispatch({ type: "jumpToStart" }),
+      reset: () => dispatch({ type: "reset" }),
+    }),
+    [dispatch]
+  );
+
+  const activeStopPoint = isAtStopPoint(state) ? tutorialData?.stopPoints[state.stopPointIndex] ?? null : null;
+
+  return { state, activeStopPoint, dispatch, ...actions };
+};
@@ -0,0 +1,58 @@
+// hooks/useTutorialProgress.ts
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { TutorialJsonData, TutorialProgress, TutorialProgressStorage } from "../types";
+import {
+  clearProgress,
+  getProgressStorageKey,
+  hashTutorialData,
+  loadProgress,
+  resolveProgressStorage,
+  saveProgress,
+} from "../utils/progress";
+
+export type ProgressStorageOption = "localStorage" | "sessionStorage" | TutorialProgressStorage;
+
+/**
+ * Loads and saves tutorial progress under `uniqueKey`. Persistence is disabled unless both a storage
+ * and a `uniqueKey` are given. `savedProgress` follows every save, so it always holds the latest progress.
+ */
+export const useTutorialProgress = (
+  storageOption: ProgressStorageOption | undefined,
+  uniqueKey: string | undefined,
+  tutorialData: TutorialJsonData | null
+) => {
+  const [savedProgress, setSavedProgress] = useState<TutorialProgress | null>(null);
+  const storage = useMemo(() => (storageOption ? resolveProgressStorage(storageOption) : null), [storageOption]);
+  const dataHash = useMemo(() => (tutorialData ? hashTutorialData(tutorialData) : null), [tutorialData]);
+  const key = uniqueKey ? getProgressStorageKey(uniqueKey) : null;
+
+  useEffect(() => {
+    setSavedProgress(null);
+    if (!storage || !key || !dataHash) return;
+    // Custom adapters may be slow; ignore a result that arrives after the key or data changed.
+    let isCancelled = false;
+    loadProgress(storage, key, dataHash).then((progress) => {
+      if (!isCancelled) setSavedProgress(progress);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [storage, key, dataHash]);
+
+  const save = useCallback(
+    (progress: Omit<TutorialProgress, "dataHash" | "updatedAt">) => {
+      if (!storage || !key || !dataHash) return;
+      const nextProgress = { ...progress, dataHash, updatedAt: Date.now() };
+      setSavedProgress(nextProgress);
+      saveProgress(storage, key, nextProgress);
+    },
+    [storage, key, dataHash]
+  );
+
+  const clear = useCallback(() => {
+    setSavedProgress(null);
+    if (storage && key) clearProgress(storage, key);
+  }, [storage, key]);
+
+  return { savedProgress, save, clear };
+};
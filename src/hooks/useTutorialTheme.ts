@@ -0,0 +1,18 @@
+// hooks/useTutorialTheme.ts
+import { TutorialTheme, TutorialThemeName, TutorialThemeOverrides } from "../types";
+import { resolveTutorialTheme } from "../utils/theme";
+import { useMediaQuery } from "./useMediaQuery";
+
+/** Resolves the `theme` and `colors` props, following the user's color scheme and contrast preferences. */
+export const useTutorialTheme = (
+  theme: TutorialThemeName | TutorialThemeOverrides | undefined,
+  colors: { primary?: string; secondary?: string } | undefined
+): TutorialTheme => {
+  const prefersDark = useMediaQuery("(prefers-color-scheme: dark)");
+  const prefersMoreContrast = useMediaQuery("(prefers-contrast: more)");
+  return {
+    ...resolveTutorialTheme(theme, { prefersDark, prefersMoreContrast }),
+    ...(colors?.primary && { primary: colors.primary }),
+    ...(colors?.secondary && { secondary: colors.secondary }),
+  };
+};
@@ -0,0 +1,68 @@
+// hooks/useUndoableState.ts
+import { useState, useCallback, useRef } from "react";
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+/** Undo steps kept before the oldest ones are dropped. */
+const MAX_HISTORY = 200;
+
+/**
+ * State with undo and redo. Consecutive updates with the same `mergeKey` become a single undo step,
+ * e.g. the keystrokes typed into one field or the pointer moves of one drag.
+ */
+export const useUndoableState = <T>(initialValue: T) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initialValue, future: [] });
+  const lastMergeKey = useRef<string | null>(null);
+
+  const set = useCallback((update: (current: T) => T, mergeKey?: string) => {
+    const isMerged = mergeKey !== undefined && mergeKey === lastMergeKey.current;
+    lastMergeKey.current = mergeKey ?? null;
+    setHistory((current) => {
+      const next = update(current.present);
+      if (next === current.present) return current;
+      return {
+        past: isMerged ? current.past : [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastMergeKey.current = null;
+    setHistory((current) => {
+      const { past, present, future } = current;
+      if (past.length === 0) return current;
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastMergeKey.current = null;
+    setHistory((current) => {
+      const { past, present, future } = current;
+      if (future.length === 0) return current;
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    });
+  }, []);
+
+  /** Replaces the state and forgets the history, e.g. when another document is loaded. */
+  const reset = useCallback((value: T) => {
+    lastMergeKey.current = null;
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -1,10 +1,141 @@
-import React, { useState, useRef, useMemo, useEffect, useLayoutEffect, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useMemo,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  forwardRef,
+  useImperativeHandle,
+  useId,
+} from "react";
+import { createPortal } from "react-dom";
 import ReactPlayer from "react-player";
-import { RefreshCw, MoveRight, Play } from "lucide-react";
-import { InteractionArea, StopPoint } from "./types";
+import { RefreshCw, MoveRight, MoveLeft, Play, Maximize, Minimize, Captions, CaptionsOff, Check } from "lucide-react";
+import {
+  CaptionTrack,
+  Chapter,
+  InteractionArea,
+  LocalizedText,
+  MissClick,
+  Point,
+  QuizAnswer,
+  QuizInteractionArea,
+  SkippedStopPolicy,
+  StopPoint,
+  StopPointLayout,
+  TutorialDataError,
+  TutorialEngineEvent,
+  TutorialEvent,
+  TutorialJsonData,
+  TutorialProgressStorage,
+  TextFormat,
+  TimeRange,
+  TutorialTheme,
+  TutorialThemeName,
+  TutorialThemeOverrides,
+} from "./types";
 import "./output.css";
 import { useMediaQuery } from "./hooks/useMediaQuery";
+import { useTutorialTheme } from "./hooks/useTutorialTheme";
+import { useFocusTrap } from "./hooks/useFocusTrap";
+import { useTutorialProgress } from "./hooks/useTutorialProgress";
+import { useFullscreen } from "./hooks/useFullscreen";
+import { useTutorialEngine } from "./hooks/useTutorialEngine";
+import { useMediaFrameTime } from "./hooks/useMediaFrameTime";
+import { useCaptions } from "./hooks/useCaptions";
+import { parseTutorialData } from "./utils/parseTutorialData";
+import { findNextStopPointIndex, getChoiceAreas, getOverlayAreasAt, isExploreStopPoint } from "./utils/stopPoints";
+import { createHtmlMediaAdapter } from "./utils/mediaAdapter";
+import { isPointNearArea } from "./utils/hitTest";
+import { markdownToPlainText } from "./utils/markdown";
+import { hasKeyframes, resolveAreaAt } from "./utils/keyframes";
+import { getLocaleChain, isRtlLocale, resolveLocalizedText } from "./utils/localization";
+import { MASK_BACKGROUND, themeToCssVariables } from "./utils/theme";
+import { countCompletedStopPoints, findChapterIndexAt, getChapterProgress } from "./utils/chapters";
 import FallbackPlayer from "@/components/FallbackPlayer";
+import DataErrorPanel from "@/components/DataErrorPanel";
+import SegmentedTimeline, { TimelineChapter } from "@/components/SegmentedTimeline";
+import ChapterOutline from "@/components/ChapterOutline";
+import QuizPanel from "@/components/QuizPanel";
+import RichText from "@/components/RichText";
+import AutoAdvanceCountdown from "@/components/AutoAdvanceCountdown";
+import CaptionsLayer from "@/components/CaptionsLayer";
+import ExitConfirmDialog from "@/components/ExitConfirmDialog";
+import ControlBar, { PLAYBACK_RATES } from "@/components/ControlBar";
+
+export type {
+  TutorialJsonData,
+  TutorialDataError,
+  TutorialDataChange,
+  ParseTutorialDataResult,
+  Chapter,
+  StopPoint,
+  InteractionArea,
+  LocalizedText,
+  TextFormat,
+  QuizInteractionArea,
+  QuizOption,
+  QuizAnswer,
+  AreaGoTo,
+  StopPointMode,
+  StopPointLayout,
+  KeyframeEasing,
+  BoxKeyframe,
+  PointsKeyframe,
+  CaptionTrack,
+  WebVttCue,
+  MissClick,
+  Point,
+  TutorialFlowAnalysis,
+  SkippedStopPolicy,
+  TutorialProgress,
+  TutorialProgressStorage,
+  TutorialPlaylistProgress,
+  TutorialEvent,
+  TutorialEventType,
+  TutorialEngineStatus,
+  TutorialEngineState,
+  TutorialEngineAction,
+  TutorialEngineEvent,
+  TutorialEngineEffect,
+  TutorialMediaEvent,
+  TutorialMediaAdapter,
+  HighlightStyle,
+  TutorialTheme,
+  TutorialThemeName,
+  TutorialThemeOverrides,
+} from "./types";
+export { parseTutorialData } from "./utils/parseTutorialData";
+export type { ParseTutorialDataOptions } from "./utils/parseTutorialData";
+export { analyzeTutorialFlow } from "./utils/tutorialFlow";
+export { lintTutorialData } from "./utils/lintTutorialData";
+export type { LintTutorialDataOptions } from "./utils/lintTutorialData";
+export { diffTutorialData } from "./utils/diffTutorialData";
+export { tutorialToMarkdownStoryboard } from "./utils/storyboard";
+export { createBatchingEventSink } from "./utils/eventSink";
+export type { BatchingEventSink, BatchingEventSinkOptions } from "./utils/eventSink";
+export { useTutorialEngine } from "./hooks/useTutorialEngine";
+export type { TutorialEngineOptions } from "./hooks/useTutorialEngine";
+export { reduceTutorialEngine, initialTutorialEngineState, isAtStopPoint } from "./utils/tutorialEngine";
+export type { TutorialEngineContext, TutorialEngineTransition } from "./utils/tutorialEngine";
+export { createHtmlMediaAdapter } from "./utils/mediaAdapter";
+export {
+  parseWebVtt,
+  serializeWebVtt,
+  formatWebVttTimestamp,
+  tutorialToWebVttChapters,
+  tutorialToWebVttMetadata,
+  parseTutorialDataFromWebVtt,
+} from "./utils/webvtt";
+export type { TutorialWebVttOptions } from "./utils/webvtt";
+export { darkTheme, lightTheme, highContrastTheme, themeToCssVariables } from "./utils/theme";
+export { default as TutorialEditor } from "@/components/TutorialEditor";
+export type { TutorialEditorProps } from "@/components/TutorialEditor";
+export { default as TutorialPlaylist } from "@/components/TutorialPlaylist";
+export type { TutorialLesson, TutorialPlaylistProps, TutorialPlaylistLabels } from "@/components/TutorialPlaylist";
+export { useUndoableState } from "./hooks/useUndoableState";
+export type { TimelineChapter } from "@/components/SegmentedTimeline";
 
 // Helper components (SpeechBubble, SegmentedTimeline, etc.) are moved inside or below the main component.
 // For a larger library, you would place them in `src/components/` and import them.
@@ -12,53 +143,316 @@ import FallbackPlayer from "@/components/FallbackPlayer";
 // =================================================================
 // PROPS DEFINITION
 // =================================================================
-export interface TutorialJsonData {
-  version: "1.1";
-  stopPoints: StopPoint[];
-}
-
 export interface TutorialVideoPlayerProps {
   /** The source of the video. Can be a URL string or a File object. */
   videoSource: string | File;
-  /** The parsed JSON data for the interactive tutorial. */
+  /** The parsed JSON data for the interactive tutorial. It is validated with `parseTutorialData` before use. */
   tutorialData: TutorialJsonData;
   /**
    * Custom labels for UI elements.
-   * @default start: "Start Interactive Tutorial", continue: "Continue", complete: "Tutorial Complete!", replay: "Play Again"
+   * @default start: "Start Interactive Tutorial", continue: "Continue", complete: "Tutorial Complete!", replay: "Play Again",
+   * quizCorrect: "Correct!", quizIncorrect: "Not quite, try again.", quizRevealed: "The correct answer is marked.",
+   * missHint: "Click inside the highlighted area to continue.", exitPrompt: "Exit the tutorial?", exit: "Exit",
+   * stay: "Keep going", resume: "Resume from step {step}", startOver: "Start over", fullscreen: "Fullscreen",
+   * exitFullscreen: "Exit fullscreen", step: "Step {current} of {total}", showCaptions: "Show captions",
+   * hideCaptions: "Hide captions", visited: "Visited", play: "Play", pause: "Pause", mute: "Mute", unmute: "Unmute",
+   * volume: "Volume", playbackSpeed: "Playback speed", chapters: "Chapters", chapterProgress: "{completed} of {total} steps",
+   * timelineSteps: "Tutorial steps"
    */
   labels?: {
     start?: string;
     continue?: string;
     complete?: string;
     replay?: string;
+    quizCorrect?: string;
+    quizIncorrect?: string;
+    quizRevealed?: string;
+    missHint?: string;
+    exitPrompt?: string;
+    exit?: string;
+    stay?: string;
+    /** `{step}` is replaced with the number of the stop point the tutorial resumes at. */
+    resume?: string;
+    startOver?: string;
+    fullscreen?: string;
+    exitFullscreen?: string;
+    /** Step counter of speech bubbles. `{current}` and `{total}` are replaced with stop point numbers. */
+    step?: string;
+    showCaptions?: string;
+    hideCaptions?: string;
+    /** Appended to the accessible name of visited markers in explore stop points. */
+    visited?: string;
+    play?: string;
+    pause?: string;
+    mute?: string;
+    unmute?: string;
+    volume?: string;
+    playbackSpeed?: string;
+    chapters?: string;
+    /** Progress of the chapter outline. `{completed}` and `{total}` are replaced with numbers of stop points. */
+    chapterProgress?: string;
+    /** Accessible name of the timeline. Its segments are named with the `step` label and a preview. */
+    timelineSteps?: string;
   };
   /**
-   * Custom colors for UI elements.
+   * Custom colors for UI elements. Shorthand for `theme.primary` and `theme.secondary`, which it overrides.
    * @default primary: "#3B82F6", secondary: "#8B5CF6"
    */
   colors?: {
     primary?: string;
     secondary?: string;
   };
+  /**
+   * A built-in theme, or one with some values replaced, e.g. `{ base: "light", bubbleRadius: "0.25rem" }`.
+   * `"auto"` follows the user's color scheme and contrast preferences.
+   * @default "dark"
+   */
+  theme?: TutorialThemeName | TutorialThemeOverrides;
+  /**
+   * Custom components replacing parts of the built-in UI, e.g. to use your design system's buttons and cards.
+   * Speech bubbles are still positioned next to their highlight and highlights still mask the video.
+   */
+  components?: TutorialPlayerComponents;
   /**
    * If true, the timeline progress bar will be displayed.
    * @default true
    */
   showTimeline?: boolean;
+  /**
+   * If true, a control bar over the video lets users pause between stop points, change the playback speed
+   * and volume, and go fullscreen with the tutorial's overlays. It also enables keyboard shortcuts: Space
+   * or K to play and pause, M to mute, F for fullscreen, < and > to change the speed.
+   * @default true
+   */
+  showControls?: boolean;
+  /**
+   * If true and the tutorial data has chapters, an outline next to the video lists them with their
+   * progress and jumps to a chapter when it is selected.
+   * @default true
+   */
+  showChapterOutline?: boolean;
+  /**
+   * If true, speech bubbles show which stop point the user is at, e.g. "Step 2 of 5".
+   * @default false
+   */
+  showStepCounter?: boolean;
+  /**
+   * WebVTT captions, as the URL of a `.vtt` file or a list of tracks in different languages. They are
+   * drawn above the tutorial's overlays, which would hide the video's own captions, and can be toggled.
+   * The track matching `locale` is shown.
+   */
+  captions?: string | CaptionTrack[];
+  /**
+   * Which stop points to trigger when the user seeks forward past one or more of them.
+   * @default "last"
+   */
+  skippedStopPolicy?: SkippedStopPolicy;
+  /**
+   * Seconds before its time at which a stop point may pause the video. The video is paused on the last
+   * frame at or before a stop point, at any playback speed, instead of running past it and jumping back.
+   * @default 0.05
+   */
+  stopTolerance?: number;
+  /**
+   * Locale used to pick translations of texts given as `{ [locale]: text }`.
+   * @default "en"
+   */
+  locale?: string;
+  /**
+   * Locales to try, in order, when a text has no translation for `locale` or its language.
+   * @default ["en"]
+   */
+  fallbackLocales?: string[];
+  /** Text direction of tutorial content. Derived from `locale` if omitted. */
+  dir?: "ltr" | "rtl";
   uniqueKey?: string;
+  /**
+   * Where to save progress so users can resume the tutorial in a later session. Requires `uniqueKey`.
+   * Custom adapters should keep the same identity between renders.
+   */
+  progressStorage?: "localStorage" | "sessionStorage" | TutorialProgressStorage;
+  /**
+   * Viewport width in pixels at or below which the mobile layout is used: speech bubbles become a
+   * bottom sheet below the video and highlights accept taps slightly outside their shape.
+   * @default 768
+   */
+  mobileBreakpoint?: number;
+  /**
+   * If true and `fallbackUrl` is set, small screens get a plain video instead of the interactive mobile layout.
+   * @default false
+   */
+  mobileFallback?: boolean;
+  /** The URL of the plain video shown on small screens when `mobileFallback` is set. */
   fallbackUrl?: string;
   /** Callback function triggered when the tutorial starts. */
   onTutorialStart?: () => void;
   /** Callback function triggered when the tutorial is completed. */
   onTutorialComplete?: () => void;
+  /** Callback function triggered when the user exits the tutorial with Esc. */
+  onTutorialExit?: () => void;
   /** Callback function triggered on each interaction step. */
   onNextInteraction?: (stopPoint: StopPoint, areaIndex: number) => void;
+  /** Callback function triggered when a click on a clickable highlight lands outside its shape. */
+  onMissClick?: (missClick: MissClick) => void;
+  /** Callback function triggered every time a quiz question is answered. */
+  onQuizAnswer?: (answer: QuizAnswer) => void;
+  /** Callback function triggered whenever the video enters another chapter. */
+  onChapterStart?: (chapter: Chapter) => void;
+  /** Callback function triggered once all stop points of a chapter on the path taken are completed. */
+  onChapterComplete?: (chapter: Chapter) => void;
+  /** Callback function triggered whenever the state returned by `getState()` changes. */
+  onStateChange?: (state: TutorialPlayerState) => void;
+  /** Callback function receiving every analytics event, see `TutorialEvent`. */
+  onEvent?: (event: TutorialEvent) => void;
+  /** Callback function triggered when `tutorialData` fails validation. */
+  onDataError?: (errors: TutorialDataError[]) => void;
+  /**
+   * If true, a developer error panel listing validation errors is rendered in place of the player.
+   * @default true
+   */
+  showDataErrors?: boolean;
+}
+
+/** A `TutorialEvent` before the player stamps it with the time and video position. */
+type TutorialEventInput<E = TutorialEvent> = E extends TutorialEvent ? Omit<E, "timestamp" | "videoTime"> : never;
+
+export type TutorialPlayerStatus = "idle" | "playing" | "paused" | "atStop" | "finished";
+
+export interface TutorialPlayerState {
+  status: TutorialPlayerStatus;
+  currentTime: number;
+  duration: number;
+  /** Index of the active stop point, or of the next one to be reached when no stop point is active. */
+  stopPointIndex: number;
+  activeStopPointId: string | null;
+  activeAreaIndex: number;
+  /** Ids of the stop points completed so far, in the order they were completed. */
+  completedStopPointIds: string[];
+}
+
+/** Imperative controller exposed through the `ref` of `TutorialVideoPlayer`. */
+export interface TutorialVideoPlayerHandle {
+  /** Starts the tutorial, or resumes playback if it was paused. */
+  play: () => void;
+  pause: () => void;
+  /** Seeks to the stop point with the given id and activates its first area. Returns false if no such stop point exists. */
+  seekToStop: (stopPointId: string) => boolean;
+  /** Seeks to the first stop point of the chapter with the given id. Returns false if no such chapter exists. */
+  seekToChapter: (chapterId: string) => boolean;
+  /** Advances one area, or jumps to the next stop point if none is active. */
+  next: () => void;
+  /** Goes back one area, continuing into the last area of the previous stop point. */
+  previous: () => void;
+  /** Restarts the tutorial from the beginning. */
+  replay: () => void;
+  getState: () => TutorialPlayerState;
+}
+
+export type TutorialPlayerLabels = Required<NonNullable<TutorialVideoPlayerProps["labels"]>>;
+
+export interface BubbleContentProps {
+  area: InteractionArea;
+  /** The area's localized text. Render it with your own Markdown renderer if `format` is `"markdown"`. */
+  text: string;
+  format: TextFormat;
+  /** The area's localized title. */
+  title?: string;
+  /** Index of the active stop point. */
+  stepIndex: number;
+  /** Number of stop points in the tutorial. */
+  totalSteps: number;
+  areaIndex: number;
+  /** If false, the user continues by clicking the highlight instead of a button. */
+  hasNextButton: boolean;
+  /** Hint to show after a missed click on the highlight, otherwise undefined. */
+  hint?: string;
+  /** Number of missed clicks on the highlight so far. */
+  missCount: number;
+  /** Milliseconds until the area continues on its own, or null if it waits for the user. */
+  autoAdvanceDelay: number | null;
+  continueLabel: string;
+  dir: "ltr" | "rtl";
+  onNext: () => void;
+}
+
+export interface NextButtonProps {
+  label: string;
+  primaryColor: string;
+  dir: "ltr" | "rtl";
+  onClick: () => void;
+}
+
+export interface HighlightProps {
+  area: InteractionArea;
+  /** The area's localized text. */
+  label: string;
+  primaryColor: string;
+  /** Whether the user continues by clicking the highlight. */
+  isClickable: boolean;
+}
+
+export interface StartScreenProps {
+  totalSteps: number;
+  /** Number of the stop point a saved session resumes at, or null if there is nothing to resume. */
+  resumeStep: number | null;
+  labels: TutorialPlayerLabels;
+  colors: { primary: string; secondary: string };
+  onStart: () => void;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+export interface CompleteScreenProps {
+  totalSteps: number;
+  completedStopPointIds: string[];
+  labels: TutorialPlayerLabels;
+  colors: { primary: string; secondary: string };
+  onReplay: () => void;
+}
+
+export interface TimelineProps {
+  duration: number;
+  currentTime: number;
+  stopPoints: StopPoint[];
+  /** Localized text of each stop point's first area. */
+  stopPointPreviews: string[];
+  /** Parts of the video jumped over by branches. */
+  skippedRanges: TimeRange[];
+  /** Index of the active stop point, or null if none is active. */
+  activeStopPointIndex: number | null;
+  /** The tutorial's chapters, empty if it has none. */
+  chapters: TimelineChapter[];
+  primaryColor: string;
+  onSelectStop: (stopPointIndex: number) => void;
+  onSelectStart: () => void;
+}
+
+/**
+ * Replacements for parts of the player's UI. `BubbleContent` replaces the speech bubble's card (quizzes keep
+ * theirs), `NextButton` only its button and `Highlight` the dashed outline drawn inside the area's bounds.
+ */
+export interface TutorialPlayerComponents {
+  BubbleContent?: React.ComponentType<BubbleContentProps>;
+  NextButton?: React.ComponentType<NextButtonProps>;
+  Highlight?: React.ComponentType<HighlightProps>;
+  StartScreen?: React.ComponentType<StartScreenProps>;
+  CompleteScreen?: React.ComponentType<CompleteScreenProps>;
+  Timeline?: React.ComponentType<TimelineProps>;
 }
 
 // =================================================================
 // HELPER COMPONENTS (Slightly modified to accept props like colors)
 // =================================================================
 
+// Theme values are read from the CSS custom properties the player sets on its root element.
+const BUBBLE_CARD_CLASS =
+  "bg-(--rtv-bubble-background) border border-(--rtv-bubble-border) text-(--rtv-bubble-text) rounded-(--rtv-bubble-radius) shadow-2xl";
+const PRIMARY_BUTTON_CLASS =
+  "text-(--rtv-button-text) rounded-(--rtv-button-radius) transition-all duration-300 transform motion-safe:hover:scale-105 shadow-lg";
+
+const prefersReducedMotion = () =>
+  typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+
 const SpeechBubble = ({
   text,
   hasNextButton,
@@ -66,94 +460,156 @@ const SpeechBubble = ({
   targetStyle,
   isClosing,
   videoContainer,
+  sheetContainer = null,
   continueMessage,
+  hint,
+  missCount = 0,
+  dir = "ltr",
+  primaryColor,
+  NextButton,
+  body,
+  title,
+  stepLabel,
+  format = "plain",
+  countdown,
+  interactive = true,
+  children,
 }: {
   text: string;
+  /** Heading shown above the text. */
+  title?: string;
+  /** Progress indicator such as "Step 2 of 5". */
+  stepLabel?: string;
+  format?: TextFormat;
+  /** Shown above the content while the area counts down to continuing on its own. */
+  countdown?: React.ReactNode;
+  /** If false, the bubble is a note shown while the video plays and cannot be focused or advanced. */
+  interactive?: boolean;
   hasNextButton: boolean;
   onNext: () => void;
   targetStyle: { left: string; top: string; width: string; height: string };
   isClosing: boolean;
   videoContainer: HTMLElement | null;
+  /** When set, the bubble is rendered as a bottom sheet into this element instead of floating next to its target. */
+  sheetContainer?: HTMLElement | null;
   continueMessage: string;
+  /** Shown below the text after a missed click. */
+  hint?: string;
+  /** The bubble shakes every time this increases. */
+  missCount?: number;
+  /** Text direction. Right-to-left mirrors the bubble's fallback placement and the next button icon. */
+  dir?: "ltr" | "rtl";
+  primaryColor: string;
+  /** Replaces the default next button. */
+  NextButton?: React.ComponentType<NextButtonProps>;
+  /** Replaces the whole card, including its arrow. The bubble is still positioned next to its target. */
+  body?: React.ReactNode;
+  /** Replaces the default text and next button inside the card. */
+  children?: React.ReactNode;
 }) => {
   const bubbleRef = useRef<HTMLDivElement>(null);
+  const isRtl = dir === "rtl";
+  const plainText = format === "markdown" ? markdownToPlainText(text) : text;
   const [positionStyle, setPositionStyle] = useState<React.CSSProperties>({});
   const [arrowDirection, setArrowDirection] = useState<"left" | "right" | "top" | "bottom">("left");
 
-  useLayoutEffect(() => {
-    if (!bubbleRef.current || !videoContainer) return;
+  useEffect(() => {
+    if (missCount === 0 || !bubbleRef.current?.animate || prefersReducedMotion()) return;
+    bubbleRef.current.animate(
+      [
+        { transform: "translateX(0)" },
+        { transform: "translateX(-8px)" },
+        { transform: "translateX(8px)" },
+        { transform: "translateX(-4px)" },
+        { transform: "translateX(0)" },
+      ],
+      { duration: 400, easing: "ease-in-out" }
+    );
+  }, [missCount]);
 
+  useLayoutEffect(() => {
     const bubble = bubbleRef.current;
-    const containerRect = videoContainer.getBoundingClientRect();
-    const bubbleRect = bubble.getBoundingClientRect();
-
-    const containerWidth = containerRect.width;
-    const containerHeight = containerRect.height;
-    const bubbleWidth = bubbleRect.width;
-    const bubbleHeight = bubbleRect.height;
-
-    // Convert percentage-based targetStyle to pixel values
-    const targetPx = {
-      left: (parseFloat(targetStyle.left) / 100) * containerWidth,
-      top: (parseFloat(targetStyle.top) / 100) * containerHeight,
-      width: (parseFloat(targetStyle.width) / 100) * containerWidth,
-      height: (parseFloat(targetStyle.height) / 100) * containerHeight,
-    };
+    if (!bubble || !videoContainer || sheetContainer) return;
 
-    const gap = 10;
-
-    const targetCenterX = targetPx.left + targetPx.width / 2;
-    const targetCenterY = targetPx.top + targetPx.height / 2;
-
-    let finalLeft: number;
-    let finalTop: number;
-    let finalDirection: "left" | "right" | "top" | "bottom";
-
-    const spaceOnRight = containerWidth - (targetPx.left + targetPx.width + gap);
-    const spaceOnLeft = targetPx.left - gap;
-    const isTargetOnRightHalf = targetCenterX > containerWidth / 2;
-
-    // Implement intelligent positioning logic
-    if (isTargetOnRightHalf && spaceOnLeft >= bubbleWidth) {
-      // Prefer left side if target is on the right
-      finalLeft = spaceOnLeft - gap - bubbleWidth;
-      finalTop = Math.max(0, Math.min(containerHeight - bubbleHeight, targetCenterY - bubbleHeight / 2));
-      finalDirection = "left"; // Bubble on left, arrow on its right, points right
-    } else if (!isTargetOnRightHalf && spaceOnRight >= bubbleWidth) {
-      // Prefer right side if target is on the left
-      finalLeft = targetPx.left + targetPx.width + gap;
-      finalTop = Math.max(0, Math.min(containerHeight - bubbleHeight, targetCenterY - bubbleHeight / 2));
-      finalDirection = "right"; // Bubble on right, arrow on its left, points left
-    }
-    // Fallback logic
-    else if (spaceOnRight >= bubbleWidth) {
-      // Try right
-      finalLeft = targetPx.left + targetPx.width + gap;
-      finalTop = Math.max(0, Math.min(containerHeight - bubbleHeight, targetCenterY - bubbleHeight / 2));
-      finalDirection = "right";
-    } else if (spaceOnLeft >= bubbleWidth) {
-      // Try left
-      finalLeft = spaceOnLeft - gap - bubbleWidth;
-      finalTop = Math.max(0, Math.min(containerHeight - bubbleHeight, targetCenterY - bubbleHeight / 2));
-      finalDirection = "left";
-    } else if (targetPx.top - gap - bubbleHeight >= 0) {
-      // Try top
-      finalLeft = Math.max(0, Math.min(containerWidth - bubbleWidth, targetCenterX - bubbleWidth / 2));
-      finalTop = targetPx.top - gap - bubbleHeight;
-      finalDirection = "bottom"; // Bubble on top, arrow on its bottom, points down
-    } else {
-      // Use bottom
-      finalLeft = Math.max(0, Math.min(containerWidth - bubbleWidth, targetCenterX - bubbleWidth / 2));
-      finalTop = targetPx.top + targetPx.height + gap;
-      finalDirection = "top"; // Bubble on bottom, arrow on its top, points up
-    }
+    const updatePosition = () => {
+      const containerRect = videoContainer.getBoundingClientRect();
+      const bubbleRect = bubble.getBoundingClientRect();
 
-    setPositionStyle({
-      left: `${finalLeft}px`,
-      top: `${finalTop}px`,
-    });
-    setArrowDirection(finalDirection);
-  }, [targetStyle, text, videoContainer]);
+      const containerWidth = containerRect.width;
+      const containerHeight = containerRect.height;
+      const bubbleWidth = bubbleRect.width;
+      const bubbleHeight = bubbleRect.height;
+
+      // Convert percentage-based targetStyle to pixel values
+      const targetPx = {
+        left: (parseFloat(targetStyle.left) / 100) * containerWidth,
+        top: (parseFloat(targetStyle.top) / 100) * containerHeight,
+        width: (parseFloat(targetStyle.width) / 100) * containerWidth,
+        height: (parseFloat(targetStyle.height) / 100) * containerHeight,
+      };
+
+      const gap = 10;
+
+      const targetCenterX = targetPx.left + targetPx.width / 2;
+      const targetCenterY = targetPx.top + targetPx.height / 2;
+
+      const spaceOnRight = containerWidth - (targetPx.left + targetPx.width + gap);
+      const spaceOnLeft = targetPx.left - gap;
+      const isTargetOnRightHalf = targetCenterX > containerWidth / 2;
+      const besideTop = Math.max(0, Math.min(containerHeight - bubbleHeight, targetCenterY - bubbleHeight / 2));
+
+      // Bubble on right, arrow on its left, points left
+      const right = { left: targetPx.left + targetPx.width + gap, top: besideTop, direction: "right" as const };
+      // Bubble on left, arrow on its right, points right
+      const left = { left: spaceOnLeft - gap - bubbleWidth, top: besideTop, direction: "left" as const };
+      const fitsRight = spaceOnRight >= bubbleWidth;
+      const fitsLeft = spaceOnLeft >= bubbleWidth;
+
+      let placement: { left: number; top: number; direction: "left" | "right" | "top" | "bottom" };
+
+      // Implement intelligent positioning logic
+      if (isTargetOnRightHalf && fitsLeft) {
+        // Prefer left side if target is on the right
+        placement = left;
+      } else if (!isTargetOnRightHalf && fitsRight) {
+        // Prefer right side if target is on the left
+        placement = right;
+      }
+      // Fallback logic: try the side text starts from first, so right-to-left layouts are mirrored
+      else if (isRtl ? fitsLeft : fitsRight) {
+        placement = isRtl ? left : right;
+      } else if (isRtl ? fitsRight : fitsLeft) {
+        placement = isRtl ? right : left;
+      } else if (targetPx.top - gap - bubbleHeight >= 0) {
+        // Try top
+        placement = {
+          left: Math.max(0, Math.min(containerWidth - bubbleWidth, targetCenterX - bubbleWidth / 2)),
+          top: targetPx.top - gap - bubbleHeight,
+          direction: "bottom", // Bubble on top, arrow on its bottom, points down
+        };
+      } else {
+        // Use bottom
+        placement = {
+          left: Math.max(0, Math.min(containerWidth - bubbleWidth, targetCenterX - bubbleWidth / 2)),
+          top: targetPx.top + targetPx.height + gap,
+          direction: "top", // Bubble on bottom, arrow on its top, points up
+        };
+      }
+
+      setPositionStyle({
+        left: `${placement.left}px`,
+        top: `${placement.top}px`,
+      });
+      setArrowDirection(placement.direction);
+    };
+
+    updatePosition();
+    // Images and other late content change the bubble's height after the first layout.
+    const observer = typeof ResizeObserver === "undefined" ? null : new ResizeObserver(updatePosition);
+    observer?.observe(bubble);
+    observer?.observe(videoContainer);
+    return () => observer?.disconnect();
+  }, [targetStyle, text, videoContainer, sheetContainer, isRtl, body]);
 
   const getArrowClasses = () => {
     // Note on direction: "left" means the bubble is on the left, so its arrow is on the right pointing right.
@@ -161,13 +617,13 @@ const SpeechBubble = ({
 
     switch (arrowDirection) {
       case "right": // Bubble is on the RIGHT, arrow points LEFT
-        return `${baseClasses} left-0 top-1/2 -translate-x-full -translate-y-1/2 border-l-0 border-r-[16px] border-t-[12px] border-b-[12px] border-r-slate-700 border-t-transparent border-b-transparent`;
+        return `${baseClasses} left-0 top-1/2 -translate-x-full -translate-y-1/2 border-l-0 border-r-[16px] border-t-[12px] border-b-[12px] border-r-(--rtv-bubble-border) border-t-transparent border-b-transparent`;
       case "left": // Bubble is on the LEFT, arrow points RIGHT
-        return `${baseClasses} right-0 top-1/2 translate-x-full -translate-y-1/2 border-r-0 border-l-[16px] border-t-[12px] border-b-[12px] border-l-slate-700 border-t-transparent border-b-transparent`;
+        return `${baseClasses} right-0 top-1/2 translate-x-full -translate-y-1/2 border-r-0 border-l-[16px] border-t-[12px] border-b-[12px] border-l-(--rtv-bubble-border) border-t-transparent border-b-transparent`;
       case "top": // Bubble is on the BOTTOM, arrow points UP
-        return `${baseClasses} left-1/2 top-0 -translate-x-1/2 -translate-y-full border-b-0 border-t-[16px] border-l-[12px] border-r-[12px] border-t-slate-700 border-l-transparent border-r-transparent`;
+        return `${baseClasses} left-1/2 top-0 -translate-x-1/2 -translate-y-full border-b-0 border-t-[16px] border-l-[12px] border-r-[12px] border-t-(--rtv-bubble-border) border-l-transparent border-r-transparent`;
       case "bottom": // Bubble is on the TOP, arrow points DOWN
-        return `${baseClasses} left-1/2 bottom-0 -translate-x-1/2 translate-y-full border-t-0 border-b-[16px] border-l-[12px] border-r-[12px] border-b-slate-700 border-l-transparent border-r-transparent`;
+        return `${baseClasses} left-1/2 bottom-0 -translate-x-1/2 translate-y-full border-t-0 border-b-[16px] border-l-[12px] border-r-[12px] border-b-(--rtv-bubble-border) border-l-transparent border-r-transparent`;
       default:
         return baseClasses;
     }
@@ -175,91 +631,96 @@ const SpeechBubble = ({
 
   const animationClass = isClosing ? "animate-fade-out" : "animate-fade-in";
 
-  return (
+  // Floating bubbles never grow taller than the video; long content scrolls inside them instead.
+  const layoutClass = sheetContainer
+    ? "relative w-full p-5"
+    : "absolute w-80 max-h-[calc(100%-20px)] flex flex-col p-6 backdrop-blur-sm z-50";
+  const cardClass = `${layoutClass} ${BUBBLE_CARD_CLASS}`;
+
+  const bubble = (
     <div
       ref={bubbleRef}
-      className={`absolute w-80 p-6 backdrop-blur-sm border border-slate-600 text-white rounded-2xl shadow-2xl z-50 ${animationClass}`}
-      style={positionStyle}
+      className={`${body ? (sheetContainer ? "relative w-full" : "absolute z-50") : cardClass} ${animationClass}`}
+      style={sheetContainer ? undefined : positionStyle}
+      dir={dir}
+      role={interactive ? "dialog" : "note"}
+      aria-label={title ?? plainText}
+      tabIndex={interactive ? -1 : undefined}
+      data-autofocus={hasNextButton || children || !interactive ? undefined : true}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        // Without a next button, Enter/Space on the focused bubble advances like a click on the highlight.
+        if (
+          interactive &&
+          !hasNextButton &&
+          !children &&
+          e.target === e.currentTarget &&
+          (e.key === "Enter" || e.key === " ")
+        ) {
+          e.preventDefault();
+          onNext();
+        }
+      }}
     >
       {/* Arrow */}
-      <div className={getArrowClasses()}></div>
+      {!sheetContainer && !body && <div className={getArrowClasses()} aria-hidden="true"></div>}
 
       {/* Glow effect */}
-      <div className="absolute inset-0 rounded-2xl bg-blue-500/20 blur-xl opacity-50 -z-10"></div>
-
-      <div className="relative">
-        <p className="mb-4 text-base leading-relaxed text-slate-100">{text}</p>
-
-        {hasNextButton && (
-          <button
-            onClick={onNext}
-            className="w-full flex items-center justify-center gap-2 bg-blue-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-300 transform hover:scale-105 shadow-lg"
-          >
-            <span>{continueMessage}</span>
-            <MoveRight className="w-5 h-5" />
-          </button>
-        )}
-      </div>
-    </div>
-  );
-};
+      {!body && (
+        <div
+          className="absolute inset-0 rounded-(--rtv-bubble-radius) blur-xl opacity-(--rtv-glow-opacity) -z-10"
+          style={{ background: primaryColor }}
+          aria-hidden="true"
+        ></div>
+      )}
 
-const SegmentedTimeline = ({
-  duration,
-  currentTime,
-  stopPoints,
-  primaryColor,
-}: {
-  duration: number;
-  currentTime: number;
-  stopPoints: StopPoint[];
-  primaryColor: string;
-}) => {
-  if (duration === 0) return null;
-  const segments = useMemo(() => {
-    const newSegments = [];
-    let lastTime = 0;
-    stopPoints.forEach((stopPoint) => {
-      newSegments.push({ start: lastTime, end: stopPoint.time });
-      lastTime = stopPoint.time;
-    });
-    if (lastTime < duration) newSegments.push({ start: lastTime, end: duration });
-    return newSegments;
-  }, [stopPoints, duration]);
+      {body ?? children ?? (
+        <div className="relative flex flex-col min-h-0">
+          {/* Only the content scrolls, so the next button stays visible. */}
+          {countdown}
+          <div className="mb-4 min-h-0 overflow-y-auto">
+            {stepLabel && (
+              <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-(--rtv-bubble-muted-text)">
+                {stepLabel}
+              </p>
+            )}
+            {title && <h3 className="mb-2 text-lg font-bold">{title}</h3>}
+            <RichText text={text} format={format} primaryColor={primaryColor} />
+          </div>
 
-  return (
-    <div className="space-y-4">
-      <div className="flex items-center justify-between text-sm text-slate-400">
-        <span>Progress</span>
-        <span>{Math.round((currentTime / duration) * 100)}%</span>
-      </div>
-      <div className="flex w-full h-4 bg-white/5 backdrop-blur-sm rounded-full overflow-hidden gap-1 shadow-inner">
-        {segments.map((segment, index) => {
-          const segmentDuration = segment.end - segment.start;
-          const segmentWidth = (segmentDuration / duration) * 100;
-          let progressInSegment = 0;
-          if (currentTime >= segment.end) progressInSegment = 100;
-          else if (currentTime > segment.start)
-            progressInSegment = ((currentTime - segment.start) / segmentDuration) * 100;
+          {missCount > 0 && hint && (
+            <p role="status" className="mb-4 text-sm leading-relaxed text-(--rtv-warning-color)">
+              {hint}
+            </p>
+          )}
 
-          return (
-            <div key={index} className="relative bg-white/20 overflow-hidden" style={{ width: `${segmentWidth}%` }}>
-              <div
-                className="h-full transition-all duration-300 ease-out"
-                style={{ width: `${progressInSegment}%`, backgroundColor: primaryColor }}
-              />
-            </div>
-          );
-        })}
-      </div>
+          {hasNextButton &&
+            (NextButton ? (
+              <NextButton label={continueMessage} primaryColor={primaryColor} dir={dir} onClick={onNext} />
+            ) : (
+              <button
+                data-autofocus
+                onClick={onNext}
+                className={`w-full flex items-center justify-center gap-2 py-3 px-6 font-semibold ${PRIMARY_BUTTON_CLASS}`}
+                style={{ background: primaryColor }}
+              >
+                <span>{continueMessage}</span>
+                {isRtl ? <MoveLeft className="w-5 h-5" /> : <MoveRight className="w-5 h-5" />}
+              </button>
+            ))}
+        </div>
+      )}
     </div>
   );
+
+  return sheetContainer ? createPortal(bubble, sheetContainer) : bubble;
 };
 
 const getHighlightStyle = (area: InteractionArea): React.CSSProperties => {
   switch (area.type) {
     case "box":
     case "oval":
+    case "quiz":
       if (!area.box) return {};
       return {
         left: `${area.box.x * 100}%`,
@@ -268,7 +729,7 @@ const getHighlightStyle = (area: InteractionArea): React.CSSProperties => {
         height: `${area.box.height * 100}%`,
       };
     case "polygon":
-      if (!area.points || area.points.length != 4) return {};
+      if (!area.points || area.points.length < 3) return {};
       const xs = area.points.map((p) => p.x);
       const ys = area.points.map((p) => p.y);
       return {
@@ -282,16 +743,74 @@ const getHighlightStyle = (area: InteractionArea): React.CSSProperties => {
   }
 };
 
+const renderCutout = (area: InteractionArea) => {
+  if (area.type === "polygon") {
+    return <polygon key={area.id} points={area.points.map((p) => `${p.x},${p.y}`).join(" ")} fill="black" />;
+  }
+  if (!area.box) return null;
+  const { x, y, width, height } = area.box;
+  return area.type === "oval" ? (
+    <ellipse key={area.id} cx={x + width / 2} cy={y + height / 2} rx={width / 2} ry={height / 2} fill="black" />
+  ) : (
+    <rect key={area.id} x={x} y={y} width={width} height={height} fill="black" />
+  );
+};
+
+/** Dims the video except for the shapes of `areas`, so that several areas can be cut out of one mask. */
+const CutoutMask = ({ id, areas, style }: { id: string; areas: InteractionArea[]; style?: React.CSSProperties }) => (
+  <>
+    <svg width="0" height="0" className="absolute" aria-hidden="true">
+      <defs>
+        <mask id={id} maskUnits="objectBoundingBox" maskContentUnits="objectBoundingBox">
+          <rect x="0" y="0" width="1" height="1" fill="white" />
+          {areas.map(renderCutout)}
+        </mask>
+      </defs>
+    </svg>
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{
+        ...style,
+        background: MASK_BACKGROUND,
+        mask: `url(#${id})`,
+        WebkitMask: `url(#${id})`,
+        transform: "translate3d(0, 0, 0)",
+      }}
+    />
+  </>
+);
+
+/** Dash pattern of polygon outlines, in pixels, for each border style. */
+const POLYGON_DASH_ARRAYS: Record<TutorialTheme["highlightBorderStyle"], string | undefined> = {
+  dashed: "10 10",
+  dotted: "1 8",
+  solid: undefined,
+  none: undefined,
+};
+
 const HighlightRenderer = ({
   area,
   videoRef,
-  onClick,
-  primaryColor,
+  theme,
+  label,
+  masked = true,
+  onActivate,
+  Highlight,
+  interactive = true,
 }: {
   area: InteractionArea;
+  /** Accessible name of the highlight, usually the area's localized text. */
+  label: string;
   videoRef: React.RefObject<any>;
-  onClick: () => void;
-  primaryColor: string;
+  theme: TutorialTheme;
+  /** Called when a clickable highlight is activated with Enter or Space. */
+  onActivate?: () => void;
+  /** If false, only the outline is drawn and the rest of the video is not dimmed. */
+  masked?: boolean;
+  /** Replaces the dashed outline. It is rendered inside the area's bounds, above the mask. */
+  Highlight?: React.ComponentType<HighlightProps>;
+  /** If false, the highlight only points at something and is never clickable, as in overlay stop points. */
+  interactive?: boolean;
 }) => {
   const [videoDims, setVideoDims] = useState({ width: 0, height: 0 });
 
@@ -325,67 +844,119 @@ const HighlightRenderer = ({
       window.removeEventListener("resize", updateDimensions);
       clearTimeout(timer);
     };
-  }, [videoRef, area]);
+  }, [videoRef, area.id]);
 
-  const handleClick = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (!area.hasNextButton) onClick();
-  };
+  // Clicks are hit-tested by the overlay; the highlight only shows where they count.
+  const isClickable = interactive && !area.hasNextButton && area.type !== "quiz";
+
+  const accessibilityProps = isClickable
+    ? {
+        role: "button",
+        tabIndex: 0,
+        "aria-label": label,
+        onKeyDown: (e: React.KeyboardEvent) => {
+          if (e.key === "Enter" || e.key === " ") {
+            e.preventDefault();
+            onActivate?.();
+          }
+        },
+      }
+    : { role: "img", "aria-roledescription": "highlight", "aria-label": label };
+
+  const primaryColor = theme.primary;
+  const borderStyle = area.highlightStyle?.borderStyle ?? theme.highlightBorderStyle;
+  const borderColor = area.highlightStyle?.borderColor ?? primaryColor;
+  // The mask reads the opacity from the element it is drawn on, so areas can override it.
+  const maskStyle = {
+    ...(area.highlightStyle?.maskOpacity !== undefined && { "--rtv-mask-opacity": area.highlightStyle.maskOpacity }),
+  } as React.CSSProperties;
+  const maskShadow = `0 0 0 9999px ${MASK_BACKGROUND}`;
+
+  const maskId = `mask-${area.id}`;
+  const polygonMask = masked && area.type === "polygon" && area.points && area.points.length >= 3 && (
+    <CutoutMask id={maskId} areas={[area]} style={maskStyle} />
+  );
+
+  if (Highlight && (area.type !== "quiz" || area.box)) {
+    return (
+      <>
+        {polygonMask}
+        <div
+          {...accessibilityProps}
+          className={`absolute focus-visible:outline-4 focus-visible:outline-offset-4 focus-visible:outline-white ${
+            isClickable ? "cursor-pointer" : ""
+          }`}
+          style={{
+            ...maskStyle,
+            ...getHighlightStyle(area),
+            borderRadius: area.type === "oval" ? "50%" : undefined,
+            boxShadow: masked && area.type !== "polygon" ? maskShadow : undefined,
+            transform: "translate3d(0, 0, 0)",
+          }}
+        >
+          <Highlight area={area} label={label} primaryColor={primaryColor} isClickable={isClickable} />
+        </div>
+      </>
+    );
+  }
 
   switch (area.type) {
+    case "quiz":
+      // Quizzes without a region only dim the video behind the question.
+      if (!area.box) {
+        return masked ? (
+          <div className="absolute inset-0" style={{ ...maskStyle, background: MASK_BACKGROUND }} aria-hidden="true" />
+        ) : null;
+      }
+    // falls through
     case "box":
     case "oval":
       return (
         <div
-          onClick={handleClick}
-          className={`absolute pointer-events-auto ${!area.hasNextButton ? "cursor-pointer" : ""}`}
+          {...accessibilityProps}
+          className={`absolute focus-visible:outline-4 focus-visible:outline-offset-4 focus-visible:outline-white ${
+            isClickable ? "cursor-pointer" : ""
+          }`}
           style={{
+            ...maskStyle,
             ...getHighlightStyle(area),
-            borderRadius: area.type === "oval" ? "50%" : "0.5rem",
-            boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.8)",
-            border: `4px dashed ${primaryColor}`,
+            borderRadius: area.type === "oval" ? "50%" : "var(--rtv-highlight-radius)",
+            boxShadow: masked ? maskShadow : undefined,
+            border:
+              borderStyle === "none" ? undefined : `var(--rtv-highlight-border-width) ${borderStyle} ${borderColor}`,
             transform: "translate3d(0, 0, 0)",
           }}
         />
       );
     case "polygon":
-      if (videoDims.width === 0 || !area.points || area.points.length !== 4) return null;
-      const maskId = `mask-${area.id}`;
-      const polygonPointsForMask = area.points.map((p) => `${p.x},${p.y}`).join(" ");
+      if (videoDims.width === 0 || !area.points || area.points.length < 3) return null;
       const svgPointsForBorder = area.points.map((p) => `${p.x * videoDims.width},${p.y * videoDims.height}`).join(" ");
       return (
         <>
-          <svg width="0" height="0" className="absolute">
-            <defs>
-              <mask id={maskId} maskUnits="objectBoundingBox" maskContentUnits="objectBoundingBox">
-                <rect x="0" y="0" width="1" height="1" fill="white" />
-                <polygon points={polygonPointsForMask} fill="black" />
-              </mask>
-            </defs>
-          </svg>
+          {polygonMask}
           <div
-            className="absolute inset-0 bg-black/80 pointer-events-none"
-            style={{ mask: `url(#${maskId})`, WebkitMask: `url(#${maskId})`, transform: "translate3d(0, 0, 0)" }}
-          />
-          <div
-            onClick={handleClick}
-            className={`absolute inset-0 w-full h-full pointer-events-auto ${
-              !area.hasNextButton ? "cursor-pointer" : ""
-            }`}
+            className="absolute inset-0 w-full h-full pointer-events-none"
             style={{ transform: "translate3d(0, 0, 0)" }}
           >
-            <svg width="100%" height="100%" className="overflow-visible">
+            <svg
+              {...accessibilityProps}
+              width="100%"
+              height="100%"
+              className="overflow-visible focus-visible:outline-4 focus-visible:outline-white"
+            >
               <defs>
-                <style>{`@keyframes dash { to { stroke-dashoffset: -20; } } .animated-polygon { animation: dash 1s linear infinite; }`}</style>
+                <style>{`@keyframes dash { to { stroke-dashoffset: -20; } } .animated-polygon { animation: dash 1s linear infinite; } @media (prefers-reduced-motion: reduce) { .animated-polygon { animation: none; } }`}</style>
               </defs>
               <polygon
                 points={svgPointsForBorder}
-                className="animated-polygon"
+                className={`animated-polygon ${isClickable ? "cursor-pointer" : ""}`}
                 style={{
-                  fill: "none",
-                  stroke: primaryColor,
-                  strokeWidth: 4,
-                  strokeDasharray: "10 10",
+                  fill: "transparent",
+                  pointerEvents: "visiblePainted",
+                  stroke: borderStyle === "none" ? "none" : borderColor,
+                  strokeWidth: "var(--rtv-highlight-border-width)",
+                  strokeDasharray: POLYGON_DASH_ARRAYS[borderStyle],
+                  strokeLinecap: borderStyle === "dotted" ? "round" : undefined,
                   vectorEffect: "non-scaling-stroke",
                 }}
               />
@@ -403,7 +974,8 @@ const getSpeechBubbleTargetStyle = (
 ): { left: string; top: string; width: string; height: string } => {
   switch (area.type) {
     case "box":
-    case "oval": {
+    case "oval":
+    case "quiz": {
       const style = getHighlightStyle(area);
       return {
         left: typeof style.left === "string" ? style.left : "0px",
@@ -413,7 +985,7 @@ const getSpeechBubbleTargetStyle = (
       };
     }
     case "polygon": {
-      if (!area.points || area.points.length != 4) {
+      if (!area.points || area.points.length < 3) {
         return { left: "0px", top: "0px", width: "0px", height: "0px" };
       }
       const centroid = area.points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
@@ -430,52 +1002,247 @@ const getSpeechBubbleTargetStyle = (
       return { left: "0px", top: "0px", width: "0px", height: "0px" };
   }
 };
+// Extra margin in pixels around clickable highlights on touch screens.
+const TOUCH_SLOP = 16;
+
+/** Keyboard shortcuts are left to text fields, sliders and selects that handle the keys themselves. */
+const isEditableTarget = (target: EventTarget) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
 // =================================================================
 // MAIN COMPONENT
 // =================================================================
-export const TutorialVideoPlayer: React.FC<TutorialVideoPlayerProps> = ({
-  videoSource,
-  tutorialData,
-  labels: customLabels,
-  colors: customColors,
-  showTimeline = true,
-  uniqueKey,
-  fallbackUrl,
-  onTutorialStart,
-  onTutorialComplete,
-  onNextInteraction,
-}) => {
+const TutorialVideoPlayerRender: React.ForwardRefRenderFunction<TutorialVideoPlayerHandle, TutorialVideoPlayerProps> = (
+  {
+    videoSource,
+    tutorialData: rawTutorialData,
+    labels: customLabels,
+    colors: customColors,
+    theme: customTheme,
+    components = {},
+    showTimeline = true,
+    showControls = true,
+    showChapterOutline = true,
+    showStepCounter = false,
+    captions,
+    skippedStopPolicy = "last",
+    stopTolerance = 0.05,
+    locale = "en",
+    fallbackLocales = ["en"],
+    dir: customDir,
+    uniqueKey,
+    progressStorage,
+    mobileBreakpoint = 768,
+    mobileFallback = false,
+    fallbackUrl,
+    onTutorialStart,
+    onTutorialComplete,
+    onTutorialExit,
+    onNextInteraction,
+    onQuizAnswer,
+    onChapterStart,
+    onChapterComplete,
+    onMissClick,
+    onStateChange,
+    onEvent,
+    onDataError,
+    showDataErrors = true,
+  },
+  ref
+) => {
   // Set default values for customizable props
   const labels = {
     start: "Start Interactive Tutorial",
     continue: "Next",
     complete: "Tutorial Complete!",
     replay: "Play Again",
+    quizCorrect: "Correct!",
+    quizIncorrect: "Not quite, try again.",
+    quizRevealed: "The correct answer is marked.",
+    missHint: "Click inside the highlighted area to continue.",
+    exitPrompt: "Exit the tutorial?",
+    exit: "Exit",
+    stay: "Keep going",
+    resume: "Resume from step {step}",
+    startOver: "Start over",
+    fullscreen: "Fullscreen",
+    exitFullscreen: "Exit fullscreen",
+    step: "Step {current} of {total}",
+    showCaptions: "Show captions",
+    hideCaptions: "Hide captions",
+    visited: "Visited",
+    play: "Play",
+    pause: "Pause",
+    mute: "Mute",
+    unmute: "Unmute",
+    volume: "Volume",
+    playbackSpeed: "Playback speed",
+    chapters: "Chapters",
+    chapterProgress: "{completed} of {total} steps",
+    timelineSteps: "Tutorial steps",
     ...customLabels,
   };
 
-  const colors = {
-    primary: "#3B82F6", // blue-500
-    secondary: "#8B5CF6", // purple-500
-    ...customColors,
-  };
+  const theme = useTutorialTheme(customTheme, customColors);
+  const colors = { primary: theme.primary, secondary: theme.secondary };
 
-  const [hasStarted, setHasStarted] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [mediaElement, setMediaElement] = useState<HTMLVideoElement | null>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
-  const nextStopPointIndex = useRef(0);
-
-  const [activeStopPoint, setActiveStopPoint] = useState<StopPoint | null>(null);
-  const [activeAreaIndex, setActiveAreaIndex] = useState(0);
-  const [isFinished, setIsFinished] = useState(false);
-  const [isBubbleClosing, setIsBubbleClosing] = useState(false);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  // The area the user currently sees and since when, for dwell times and abandon events.
+  const shownArea = useRef<{ stopPointId: string; areaId: string; shownAt: number } | null>(null);
+  // Set once the session is reported as abandoned, so e.g. hiding the page and then unmounting counts once.
+  const hasAbandoned = useRef(false);
 
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
   const [videoAspectRatio, setVideoAspectRatio] = useState<string>("16 / 9");
+  // Applied to the video on every render, so the speed survives the engine's pauses and seeks at stop points.
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [volume, setVolume] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
+  const [missCount, setMissCount] = useState(0);
+  const [isExitConfirmOpen, setIsExitConfirmOpen] = useState(false);
+  // The area of an explore stop point whose speech bubble is open.
+  const [openExploreAreaIndex, setOpenExploreAreaIndex] = useState<number | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const replayButtonRef = useRef<HTMLButtonElement>(null);
+  const completeScreenRef = useRef<HTMLDivElement>(null);
+  const startDialogTitleId = useId();
+  const completeDialogTitleId = useId();
+
+  const isMobile = useMediaQuery(`(max-width: ${mobileBreakpoint}px)`);
+  const isCoarsePointer = useMediaQuery("(pointer: coarse)");
+  const playerAreaRef = useRef<HTMLDivElement>(null);
+  const fullscreen = useFullscreen(playerAreaRef);
+  // In fullscreen there is room for floating bubbles again, so the bottom sheet is only used inline.
+  const isMobileLayout = isMobile && !fullscreen.isFullscreen;
+  const [sheetElement, setSheetElement] = useState<HTMLDivElement | null>(null);
+  const bubbleSheet = isMobileLayout ? sheetElement : null;
 
-  const isMobile = useMediaQuery("(max-width: 768px)");
+  const parsedData = useMemo(() => parseTutorialData(rawTutorialData), [rawTutorialData]);
+  const tutorialData = parsedData.data;
+
+  const localeChain = useMemo(() => getLocaleChain(locale, fallbackLocales), [locale, fallbackLocales.join()]);
+  const localize = useCallback(
+    (text: LocalizedText | undefined) => resolveLocalizedText(text, localeChain),
+    [localeChain]
+  );
+  // Accessible names and previews cannot hold formatting, so Markdown texts are flattened for them.
+  const localizePlainText = useCallback(
+    (area: InteractionArea | undefined) => {
+      const text = localize(area?.text);
+      return area?.format === "markdown" ? markdownToPlainText(text) : text;
+    },
+    [localize]
+  );
+  const dir = customDir ?? (isRtlLocale(locale) ? "rtl" : "ltr");
+  const captionTracks = typeof captions === "string" ? [{ src: captions }] : captions ?? [];
+  const { track: captionTrack, cues: captionCues } = useCaptions(captionTracks, localeChain);
+  const [areCaptionsVisible, setAreCaptionsVisible] = useState(true);
+  const stopPointPreviews = useMemo(
+    () => tutorialData?.stopPoints.map((stopPoint) => localizePlainText(stopPoint.areas[0])) ?? [],
+    [tutorialData, localizePlainText]
+  );
+
+  useEffect(() => {
+    if (!parsedData.ok) onDataError?.(parsedData.errors);
+  }, [parsedData]);
+
+  const progress = useTutorialProgress(progressStorage, uniqueKey, tutorialData);
+  const { savedProgress } = progress;
+  // Number of the stop point a saved session resumes at, or null if there is nothing to resume.
+  const resumeStep = useMemo(() => {
+    if (!savedProgress || !tutorialData || tutorialData.stopPoints.length === 0) return null;
+    const { stopPoints } = tutorialData;
+    const activeIndex = stopPoints.findIndex((stopPoint) => stopPoint.id === savedProgress.activeStopPointId);
+    const index = activeIndex >= 0 ? activeIndex : findNextStopPointIndex(stopPoints, savedProgress.time);
+    return Math.min(index, stopPoints.length - 1) + 1;
+  }, [savedProgress, tutorialData]);
+
+  const emitEvent = useCallback((event: TutorialEventInput) => {
+    onEventRef.current?.({
+      ...event,
+      timestamp: Date.now(),
+      videoTime: videoRef.current?.currentTime ?? 0,
+    } as TutorialEvent);
+  }, []);
+
+  /** Turns engine notifications into the player's callbacks and analytics events. */
+  const handleEngineEvent = (event: TutorialEngineEvent) => {
+    const stopPoints = tutorialData?.stopPoints ?? [];
+    switch (event.type) {
+      case "start":
+        hasAbandoned.current = false;
+        onTutorialStart?.();
+        emitEvent({ type: "start", resumed: event.resumed, stopPointId: null, areaId: null });
+        break;
+      case "stopReached":
+        emitEvent({ type: "stopReached", stopPointId: stopPoints[event.stopPointIndex]?.id ?? null, areaId: null });
+        break;
+      case "areaCompleted": {
+        const stopPoint = stopPoints[event.stopPointIndex];
+        const area = stopPoint?.areas[event.areaIndex];
+        if (!stopPoint || !area) break;
+        onNextInteraction?.(stopPoint, event.areaIndex);
+        const shownAt = shownArea.current?.shownAt;
+        emitEvent({
+          type: "areaCompleted",
+          stopPointId: stopPoint.id,
+          areaId: area.id,
+          dwellMs: shownAt === undefined ? 0 : Date.now() - shownAt,
+        });
+        break;
+      }
+      case "seek":
+        emitEvent({
+          type: "seek",
+          fromTime: event.fromTime,
+          toTime: event.toTime,
+          stopPointId: event.stopPointIndex === null ? null : stopPoints[event.stopPointIndex]?.id ?? null,
+          areaId: null,
+        });
+        break;
+      case "pause":
+        emitEvent({ type: "pause", stopPointId: null, areaId: null });
+        break;
+      case "complete":
+        progress.clear();
+        onTutorialComplete?.();
+        emitEvent({ type: "complete", stopPointId: null, areaId: null });
+        break;
+    }
+  };
+
+  const handleVideoRef = useCallback((element: HTMLVideoElement | null) => {
+    videoRef.current = element;
+    setMediaElement(element);
+  }, []);
+  const mediaAdapter = useMemo(() => (mediaElement ? createHtmlMediaAdapter(mediaElement) : null), [mediaElement]);
+
+  const engine = useTutorialEngine(tutorialData, mediaAdapter, {
+    skippedStopPolicy,
+    stopTolerance,
+    onEvent: handleEngineEvent,
+  });
+  const { state: engineState, activeStopPoint } = engine;
+  const { activeAreaIndex, currentTime, duration, skippedRanges, completedStopPointIds } = engineState;
+  const hasStarted = engineState.status !== "idle";
+  // Areas of overlay stop points are shown by video time while the video keeps playing.
+  const overlayAreas =
+    tutorialData && (engineState.status === "playing" || engineState.status === "paused")
+      ? getOverlayAreasAt(tutorialData.stopPoints, currentTime)
+      : [];
+  const overlayAreaIds = overlayAreas.map(({ area }) => area.id).join();
+  // Keyframed areas move with the video, so they are redrawn every frame while one is shown over the playing video.
+  const geometryTime = useMediaFrameTime(
+    videoRef,
+    overlayAreas.some(({ area }) => hasKeyframes(area)),
+    currentTime
+  );
+  const isFinished = engineState.status === "finished";
+  const isBubbleClosing = engineState.status === "transitioning";
 
   const videoUrl = useMemo(() => {
     if (!videoSource) return null;
@@ -484,9 +1251,9 @@ export const TutorialVideoPlayer: React.FC<TutorialVideoPlayerProps> = ({
   }, [videoSource]);
 
   useEffect(() => {
-    // Reset state when props change
-    handleReplay();
-  }, [videoSource, tutorialData]);
+    // Reset state when the video changes; the engine resets itself when the tutorial data changes.
+    engine.reset();
+  }, [videoSource, engine.reset]);
 
   useEffect(() => {
     return () => {
@@ -496,105 +1263,754 @@ export const TutorialVideoPlayer: React.FC<TutorialVideoPlayerProps> = ({
     };
   }, [videoUrl, videoSource]);
 
-  const handleProgress = useCallback(
-    (player: HTMLVideoElement) => {
-      if (!tutorialData || !hasStarted || activeStopPoint) return;
-      const currentVideoTime = player.currentTime;
-      setCurrentTime(currentVideoTime);
-      if (nextStopPointIndex.current < tutorialData.stopPoints.length) {
-        const nextStop = tutorialData.stopPoints[nextStopPointIndex.current];
-        if (currentVideoTime >= nextStop.time) {
-          setIsPlaying(false);
-          player.currentTime = nextStop.time;
-          setCurrentTime(nextStop.time);
-          setActiveStopPoint(nextStop);
-          setActiveAreaIndex(0);
-        }
-      }
-    },
-    [tutorialData, hasStarted, activeStopPoint]
-  );
-
-  const handleDuration = useCallback((duration: number) => setDuration(duration), []);
-
   const handleReady = useCallback((player: HTMLVideoElement) => {
     if (player && player.videoWidth && player.videoHeight > 0) {
       setVideoAspectRatio(`${player.videoWidth} / ${player.videoHeight}`);
     }
   }, []);
 
-  const handleStart = useCallback(() => {
-    setHasStarted(true);
-    setIsPlaying(true);
-    onTutorialStart?.();
-  }, [onTutorialStart]);
-
-  const handleVideoEnded = useCallback(() => {
-    setIsFinished(true);
-    setIsPlaying(false);
-    if (duration > 0) setCurrentTime(duration);
-    onTutorialComplete?.();
-  }, [duration, onTutorialComplete]);
-
-  const handleNextInteraction = useCallback(() => {
-    if (!activeStopPoint || isBubbleClosing) return;
-    onNextInteraction?.(activeStopPoint, activeAreaIndex);
-    setIsBubbleClosing(true);
-    setTimeout(() => {
-      const nextAreaIndex = activeAreaIndex + 1;
-      if (nextAreaIndex < activeStopPoint.areas.length) {
-        setActiveAreaIndex(nextAreaIndex);
-        setIsBubbleClosing(false);
+  const handleResume = useCallback(() => {
+    if (savedProgress) engine.resume(savedProgress);
+  }, [savedProgress, engine.resume]);
+
+  const handleStartOver = useCallback(() => {
+    progress.clear();
+    engine.start();
+  }, [progress.clear, engine.start]);
+
+  const handleChoice = useCallback(
+    (area: InteractionArea) => {
+      if (activeStopPoint) engine.choose(activeStopPoint.areas.indexOf(area));
+    },
+    [activeStopPoint, engine.choose]
+  );
+
+  const handleNextInteraction = engine.next;
+
+  const getState = useCallback(
+    (): TutorialPlayerState => ({
+      // Transitions between areas are internal to the engine; the stop point is still active.
+      status: engineState.status === "transitioning" ? "atStop" : engineState.status,
+      currentTime,
+      duration,
+      stopPointIndex: engineState.stopPointIndex,
+      activeStopPointId: activeStopPoint?.id ?? null,
+      activeAreaIndex,
+      completedStopPointIds,
+    }),
+    [engineState, activeStopPoint]
+  );
+
+  // getState() must return the latest state even when called from a stale closure.
+  const stateRef = useRef<TutorialPlayerState>(getState());
+  stateRef.current = getState();
+
+  const { status, stopPointIndex, activeStopPointId } = stateRef.current;
+  useEffect(() => {
+    onStateChange?.(stateRef.current);
+  }, [status, currentTime, duration, stopPointIndex, activeStopPointId, activeAreaIndex, completedStopPointIds]);
+
+  useEffect(() => {
+    if (!hasStarted || isFinished) return;
+    const saveCurrentProgress = () =>
+      progress.save({
+        completedStopPointIds,
+        activeStopPointId: activeStopPoint?.id ?? null,
+        time: videoRef.current?.currentTime ?? 0,
+      });
+    // Save at every stop point and pause, and once more when the page is closed mid-segment.
+    saveCurrentProgress();
+    window.addEventListener("pagehide", saveCurrentProgress);
+    return () => window.removeEventListener("pagehide", saveCurrentProgress);
+  }, [hasStarted, isFinished, completedStopPointIds, activeStopPoint, engineState.status, progress.save]);
+
+  // All areas of an explore stop point are shown at once, so visiting one of them shows nothing new.
+  const shownAreaIndex = isExploreStopPoint(activeStopPoint) ? 0 : activeAreaIndex;
+  useEffect(() => {
+    if (!activeStopPoint) {
+      shownArea.current = null;
+      return;
+    }
+    const activeArea = activeStopPoint.areas[shownAreaIndex];
+    if (isBubbleClosing || !activeArea) return;
+    shownArea.current = { stopPointId: activeStopPoint.id, areaId: activeArea.id, shownAt: Date.now() };
+    const choices = activeArea.goTo ? getChoiceAreas(activeStopPoint) : [];
+    const shownAreas = isExploreStopPoint(activeStopPoint)
+      ? activeStopPoint.areas
+      : choices.length > 1
+      ? choices
+      : [activeArea];
+    shownAreas.forEach((area) => emitEvent({ type: "areaShown", stopPointId: activeStopPoint.id, areaId: area.id }));
+  }, [activeStopPoint, shownAreaIndex, isBubbleClosing, emitEvent]);
+
+  useEffect(() => {
+    overlayAreas.forEach(({ stopPointIndex, area }) =>
+      emitEvent({
+        type: "areaShown",
+        stopPointId: tutorialData?.stopPoints[stopPointIndex]?.id ?? null,
+        areaId: area.id,
+      })
+    );
+  }, [overlayAreaIds, emitEvent]);
+
+  /**
+   * Reports the page being hidden or shown, or the session being abandoned, unless no session is running.
+   * `abandon` is sent once until the user returns to the page or starts a new session.
+   */
+  const emitSessionEvent = useCallback(
+    (event: { type: "hidden" } | { type: "visible" } | { type: "abandon"; reason: "unmount" | "hidden" | "exit" }) => {
+      const { status, currentTime } = stateRef.current;
+      if (status === "idle" || status === "finished") return;
+      if (event.type === "abandon") {
+        if (hasAbandoned.current) return;
+        hasAbandoned.current = true;
+      }
+      onEventRef.current?.({
+        ...event,
+        timestamp: Date.now(),
+        // The video element is already detached when the player unmounts.
+        videoTime: videoRef.current?.currentTime ?? currentTime,
+        stopPointId: shownArea.current?.stopPointId ?? null,
+        areaId: shownArea.current?.areaId ?? null,
+      });
+    },
+    []
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        emitSessionEvent({ type: "hidden" });
+        // The page may be closed without the player ever unmounting, so hiding it counts as abandoning.
+        emitSessionEvent({ type: "abandon", reason: "hidden" });
       } else {
-        setActiveStopPoint(null);
-        nextStopPointIndex.current += 1;
-        setIsBubbleClosing(false);
-        setIsPlaying(true);
+        emitSessionEvent({ type: "visible" });
+        // The user came back, so the session can be abandoned again later.
+        hasAbandoned.current = false;
       }
-    }, 300);
-  }, [activeStopPoint, isBubbleClosing, activeAreaIndex, onNextInteraction]);
-
-  const handleReplay = useCallback(() => {
-    if (videoRef.current) {
-      videoRef.current.currentTime = 0;
-      setCurrentTime(0);
-      nextStopPointIndex.current = 0;
-      setIsFinished(false);
-      setActiveStopPoint(null);
-      setHasStarted(false);
-      setIsPlaying(false);
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      emitSessionEvent({ type: "abandon", reason: "unmount" });
+    };
+  }, [emitSessionEvent]);
+
+  const navigateToStop = useCallback(
+    (stopPointIndex: number) => {
+      const target = tutorialData?.stopPoints[stopPointIndex];
+      if (!target) return;
+      const fromTime = videoRef.current?.currentTime ?? 0;
+      // Like seeks in the video, the event belongs to the stop point being left.
+      const stopPointId = stateRef.current.activeStopPointId;
+      engine.jumpToStop(stopPointIndex);
+      emitEvent({ type: "seek", fromTime, toTime: target.time, stopPointId, areaId: null });
+    },
+    [tutorialData, engine.jumpToStop, emitEvent]
+  );
+
+  const navigateToStart = useCallback(() => {
+    const fromTime = videoRef.current?.currentTime ?? 0;
+    const stopPointId = stateRef.current.activeStopPointId;
+    engine.jumpToStart();
+    emitEvent({ type: "seek", fromTime, toTime: 0, stopPointId, areaId: null });
+  }, [engine.jumpToStart, emitEvent]);
+
+  const chapterProgress = useMemo(
+    () =>
+      tutorialData?.chapters
+        ? getChapterProgress(tutorialData.chapters, tutorialData.stopPoints, completedStopPointIds, skippedRanges)
+        : [],
+    [tutorialData, completedStopPointIds, skippedRanges]
+  );
+  const activeChapterIndex =
+    hasStarted && tutorialData ? findChapterIndexAt(chapterProgress, tutorialData.stopPoints, currentTime) : -1;
+  const activeChapter = chapterProgress[activeChapterIndex]?.chapter;
+  const timelineChapters = useMemo(
+    (): TimelineChapter[] =>
+      chapterProgress.map(({ chapter, start, isComplete }) => ({
+        id: chapter.id,
+        title: localize(chapter.title),
+        start,
+        isComplete,
+      })),
+    [chapterProgress, localize]
+  );
+  const hasChapterOutline = showChapterOutline && chapterProgress.length > 0;
+
+  const navigateToChapter = useCallback(
+    (chapterIndex: number) => {
+      const stopPointIndex = chapterProgress[chapterIndex]?.stopPointIndexes[0];
+      if (stopPointIndex !== undefined) navigateToStop(stopPointIndex);
+    },
+    [chapterProgress, navigateToStop]
+  );
+
+  useEffect(() => {
+    if (!activeChapter) return;
+    onChapterStart?.(activeChapter);
+    emitEvent({
+      type: "chapterStart",
+      chapterId: activeChapter.id,
+      stopPointId: activeStopPoint?.id ?? null,
+      areaId: null,
+    });
+  }, [activeChapter, emitEvent]);
+
+  // Ids of the chapters reported as completed, or null before the tutorial starts.
+  const completedChapterIds = useRef<string[] | null>(null);
+  useEffect(() => {
+    if (!hasStarted) {
+      completedChapterIds.current = null;
+      return;
     }
+    const completeIds = chapterProgress.filter((progress) => progress.isComplete).map(({ chapter }) => chapter.id);
+    // Chapters already complete in resumed progress were reported in an earlier session.
+    const reportedIds = completedChapterIds.current ?? completeIds;
+    chapterProgress
+      .filter(({ chapter, isComplete }) => isComplete && !reportedIds.includes(chapter.id))
+      .forEach(({ chapter }) => {
+        onChapterComplete?.(chapter);
+        emitEvent({ type: "chapterComplete", chapterId: chapter.id, stopPointId: null, areaId: null });
+      });
+    completedChapterIds.current = [...new Set([...reportedIds, ...completeIds])];
+  }, [hasStarted, chapterProgress, emitEvent]);
+
+  const togglePlay = useCallback(() => {
+    if (engineState.status === "playing") engine.pause();
+    else if (engineState.status === "paused") engine.play();
+  }, [engineState.status, engine.play, engine.pause]);
+
+  const changeVolume = useCallback((value: number) => {
+    setVolume(value);
+    setIsMuted(value === 0);
   }, []);
 
+  const changePlaybackRate = useCallback(
+    (step: number) => {
+      const index = PLAYBACK_RATES.indexOf(playbackRate) + step;
+      setPlaybackRate(PLAYBACK_RATES[Math.min(PLAYBACK_RATES.length - 1, Math.max(0, index))]);
+    },
+    [playbackRate]
+  );
+
+  const handlePlayerKeyDown = (e: React.KeyboardEvent) => {
+    if (!showControls || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+    switch (e.key.toLowerCase()) {
+      case " ":
+        // Space activates focused buttons, e.g. the Next button of a speech bubble.
+        if (e.target instanceof HTMLElement && e.target.closest("button")) return;
+        togglePlay();
+        break;
+      case "k":
+        togglePlay();
+        break;
+      case "m":
+        setIsMuted((muted) => !muted);
+        break;
+      case "f":
+        fullscreen.toggle();
+        break;
+      case ">":
+        changePlaybackRate(1);
+        break;
+      case "<":
+        changePlaybackRate(-1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      play: engine.play,
+      pause: engine.pause,
+      seekToStop: (stopPointId) => {
+        const index = tutorialData?.stopPoints.findIndex((stopPoint) => stopPoint.id === stopPointId) ?? -1;
+        if (index < 0) return false;
+        navigateToStop(index);
+        return true;
+      },
+      seekToChapter: (chapterId) => {
+        const index = chapterProgress.findIndex(({ chapter }) => chapter.id === chapterId);
+        if (index < 0) return false;
+        navigateToChapter(index);
+        return true;
+      },
+      next: engine.next,
+      previous: engine.previous,
+      replay: () => {
+        engine.reset();
+        engine.start();
+      },
+      getState: () => stateRef.current,
+    }),
+    [
+      tutorialData,
+      chapterProgress,
+      engine.play,
+      engine.pause,
+      engine.next,
+      engine.previous,
+      engine.reset,
+      engine.start,
+      navigateToStop,
+      navigateToChapter,
+    ]
+  );
+
+  const handleQuizAnswer = useCallback(
+    (area: QuizInteractionArea, optionId: string, isCorrect: boolean, attempt: number) => {
+      if (!activeStopPoint) return;
+      onQuizAnswer?.({
+        stopPoint: activeStopPoint,
+        area,
+        optionId,
+        isCorrect,
+        attempt,
+        attemptsRemaining: area.maxAttempts === undefined ? null : Math.max(0, area.maxAttempts - attempt),
+      });
+    },
+    [activeStopPoint, onQuizAnswer]
+  );
+
+  const { BubbleContent, NextButton, Highlight, StartScreen, CompleteScreen, Timeline } = components;
+  const totalSteps = tutorialData?.stopPoints.length ?? 0;
+  // Hidden while the host paused the countdown, e.g. behind a modal.
+  const autoAdvanceDelay =
+    engineState.status === "atStop" && engineState.autoAdvanceStartedAt !== null ? engineState.autoAdvanceDelay : null;
+  const countdown = autoAdvanceDelay !== null && (
+    <AutoAdvanceCountdown key={engineState.transitionId} duration={autoAdvanceDelay} primaryColor={colors.primary} />
+  );
+  const stepLabel = showStepCounter
+    ? labels.step.replace("{current}", String(engineState.stopPointIndex + 1)).replace("{total}", String(totalSteps))
+    : undefined;
+
+  const renderBubbleContent = (
+    area: InteractionArea,
+    onNext: () => void,
+    areaMissCount: number,
+    stopPointIndex = engineState.stopPointIndex,
+    hasNextButton = area.hasNextButton
+  ) =>
+    BubbleContent && (
+      <BubbleContent
+        area={area}
+        text={localize(area.text)}
+        format={area.format ?? "plain"}
+        title={area.title === undefined ? undefined : localize(area.title)}
+        stepIndex={stopPointIndex}
+        totalSteps={totalSteps}
+        areaIndex={tutorialData?.stopPoints[stopPointIndex]?.areas.indexOf(area) ?? 0}
+        hasNextButton={hasNextButton}
+        hint={areaMissCount > 0 ? labels.missHint : undefined}
+        missCount={areaMissCount}
+        autoAdvanceDelay={stopPointIndex === engineState.stopPointIndex ? autoAdvanceDelay : null}
+        continueLabel={labels.continue}
+        dir={dir}
+        onNext={onNext}
+      />
+    );
+
+  const renderQuiz = (area: QuizInteractionArea) => {
+    const quizPanel = (
+      <QuizPanel
+        key={area.id}
+        area={area}
+        localize={localize}
+        primaryColor={colors.primary}
+        labels={{
+          continue: labels.continue,
+          correct: labels.quizCorrect,
+          incorrect: labels.quizIncorrect,
+          revealed: labels.quizRevealed,
+        }}
+        onAnswer={(optionId, isCorrect, attempt) => handleQuizAnswer(area, optionId, isCorrect, attempt)}
+        onContinue={handleNextInteraction}
+      />
+    );
+    if (area.box) {
+      return (
+        <SpeechBubble
+          text={localize(area.text)}
+          hasNextButton={false}
+          onNext={handleNextInteraction}
+          targetStyle={getSpeechBubbleTargetStyle(area)}
+          isClosing={isBubbleClosing}
+          videoContainer={videoContainerRef.current}
+          sheetContainer={bubbleSheet}
+          continueMessage={labels.continue}
+          dir={dir}
+          primaryColor={colors.primary}
+        >
+          {quizPanel}
+        </SpeechBubble>
+      );
+    }
+    if (bubbleSheet) {
+      return createPortal(
+        <div
+          dir={dir}
+          className={`w-full p-5 ${BUBBLE_CARD_CLASS} animate-fade-in`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {quizPanel}
+        </div>,
+        bubbleSheet
+      );
+    }
+    return (
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <div
+          dir={dir}
+          className={`w-80 p-6 backdrop-blur-sm ${BUBBLE_CARD_CLASS} z-50 pointer-events-auto animate-fade-in`}
+        >
+          {quizPanel}
+        </div>
+      </div>
+    );
+  };
+
+  useEffect(() => {
+    setMissCount(0);
+  }, [activeStopPoint, activeAreaIndex]);
+
+  useEffect(() => {
+    setOpenExploreAreaIndex(null);
+  }, [activeStopPoint]);
+
+  // The bottom sheet lives outside the overlay, so the mobile layout traps focus in the whole player area.
+  useFocusTrap(
+    isMobileLayout ? playerAreaRef : overlayRef,
+    activeStopPoint !== null && !isBubbleClosing && !isExitConfirmOpen
+  );
+
+  useEffect(() => {
+    if (isFinished) (replayButtonRef.current ?? completeScreenRef.current)?.focus();
+  }, [isFinished]);
+
+  const handleExit = useCallback(() => {
+    setIsExitConfirmOpen(false);
+    emitSessionEvent({ type: "abandon", reason: "exit" });
+    engine.reset();
+    onTutorialExit?.();
+  }, [emitSessionEvent, engine.reset, onTutorialExit]);
+
+  const handleOverlayKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== "Escape") return;
+    e.preventDefault();
+    setIsExitConfirmOpen(true);
+  };
+
+  /** Advances with the clicked area if the click lands inside one of `targets`, otherwise counts a miss. */
+  const handleOverlayClick = (
+    e: React.MouseEvent,
+    targets: InteractionArea[],
+    onHit: (area: InteractionArea) => void
+  ) => {
+    const containerRect = videoContainerRef.current?.getBoundingClientRect();
+    const isExplore = isExploreStopPoint(activeStopPoint);
+    // Every area of an explore stop point can be clicked to visit it.
+    const clickableTargets = isExplore
+      ? targets
+      : targets.filter((area) => !area.hasNextButton && area.type !== "quiz");
+    if (!activeStopPoint || !containerRect || clickableTargets.length === 0) return;
+    const point: Point = {
+      x: (e.clientX - containerRect.left) / containerRect.width,
+      y: (e.clientY - containerRect.top) / containerRect.height,
+    };
+    // Fingers are less precise than a mouse, so taps up to TOUCH_SLOP pixels outside a highlight still count.
+    const slop = isCoarsePointer ? TOUCH_SLOP : 0;
+    const tolerance = { x: slop / containerRect.width, y: slop / containerRect.height };
+    const hitArea = clickableTargets.find((area) =>
+      isPointNearArea(resolveAreaAt(area, geometryTime), point, tolerance)
+    );
+    if (hitArea) {
+      onHit(hitArea);
+      return;
+    }
+    // Clicks between the areas of an explore stop point are not mistakes.
+    if (isExplore) return;
+    const attempts = missCount + 1;
+    setMissCount(attempts);
+    onMissClick?.({ stopPoint: activeStopPoint, area: clickableTargets[0], attempts, point });
+    emitEvent({
+      type: "missClick",
+      stopPointId: activeStopPoint.id,
+      areaId: clickableTargets[0].id,
+      attempts,
+      point,
+    });
+  };
+
+  const renderChoices = (choices: InteractionArea[]) => (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 w-full h-full bg-black/40"
+      onClick={(e) => handleOverlayClick(e, choices, handleChoice)}
+      onKeyDown={handleOverlayKeyDown}
+    >
+      {choices.map((area) => (
+        <React.Fragment key={area.id}>
+          <HighlightRenderer
+            area={resolveAreaAt(area, geometryTime)}
+            videoRef={videoRef}
+            theme={theme}
+            label={localizePlainText(area)}
+            masked={false}
+            onActivate={() => handleChoice(area)}
+            Highlight={Highlight}
+          />
+          <SpeechBubble
+            text={localize(area.text)}
+            format={area.format}
+            title={area.title === undefined ? undefined : localize(area.title)}
+            stepLabel={stepLabel}
+            hasNextButton={area.hasNextButton}
+            onNext={() => handleChoice(area)}
+            targetStyle={getSpeechBubbleTargetStyle(resolveAreaAt(area, geometryTime))}
+            isClosing={isBubbleClosing}
+            videoContainer={videoContainerRef.current}
+            sheetContainer={bubbleSheet}
+            continueMessage={labels.continue}
+            hint={labels.missHint}
+            missCount={area.hasNextButton ? 0 : missCount}
+            dir={dir}
+            primaryColor={colors.primary}
+            NextButton={NextButton}
+            body={renderBubbleContent(area, () => handleChoice(area), area.hasNextButton ? 0 : missCount)}
+          />
+        </React.Fragment>
+      ))}
+    </div>
+  );
+
+  const renderOverlayAreas = () =>
+    overlayAreas.length > 0 && (
+      <div className="absolute inset-0 w-full h-full pointer-events-none">
+        {overlayAreas.map(({ stopPointIndex, area }) => (
+          <React.Fragment key={area.id}>
+            <HighlightRenderer
+              area={resolveAreaAt(area, geometryTime)}
+              videoRef={videoRef}
+              theme={theme}
+              label={localizePlainText(area)}
+              masked={false}
+              interactive={false}
+              Highlight={Highlight}
+            />
+            {/* Static wrapper, so the bubble is still positioned against the video. */}
+            <div className="pointer-events-auto">
+              <SpeechBubble
+                text={localize(area.text)}
+                format={area.format}
+                title={area.title === undefined ? undefined : localize(area.title)}
+                hasNextButton={false}
+                onNext={() => {}}
+                targetStyle={getSpeechBubbleTargetStyle(resolveAreaAt(area, geometryTime))}
+                isClosing={false}
+                videoContainer={videoContainerRef.current}
+                sheetContainer={bubbleSheet}
+                continueMessage={labels.continue}
+                dir={dir}
+                primaryColor={colors.primary}
+                interactive={false}
+                body={renderBubbleContent(area, () => {}, 0, stopPointIndex)}
+              />
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+    );
+
+  const handleExploreArea = (stopPoint: StopPoint, area: InteractionArea) => {
+    const areaIndex = stopPoint.areas.indexOf(area);
+    // With a legend the text is already shown, so finding the area in the video is the visit.
+    if (stopPoint.legend) engine.visit(areaIndex);
+    else setOpenExploreAreaIndex(areaIndex);
+  };
+
+  const closeExploreArea = (areaIndex: number) => {
+    setOpenExploreAreaIndex(null);
+    engine.visit(areaIndex);
+  };
+
+  const renderExploreLegend = (stopPoint: StopPoint) => {
+    const legend = (
+      <div
+        dir={dir}
+        className={`${
+          bubbleSheet
+            ? "w-full p-5"
+            : "absolute bottom-3 start-3 w-72 max-h-[calc(100%-24px)] overflow-y-auto p-4 backdrop-blur-sm z-50"
+        } ${BUBBLE_CARD_CLASS} animate-fade-in`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {stepLabel && (
+          <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-(--rtv-bubble-muted-text)">
+            {stepLabel}
+          </p>
+        )}
+        <ol className="space-y-3">
+          {stopPoint.areas.map((area, index) => {
+            const isVisited = engineState.visitedAreaIndexes.includes(index);
+            return (
+              <li key={area.id} className="flex gap-3">
+                <span
+                  className="flex-none flex items-center justify-center w-6 h-6 rounded-full text-xs font-bold text-(--rtv-button-text)"
+                  style={{ background: isVisited ? theme.successColor : theme.primary }}
+                  aria-hidden="true"
+                >
+                  {isVisited ? <Check className="w-4 h-4" /> : index + 1}
+                </span>
+                <div className="min-w-0">
+                  {area.title && <p className="mb-1 font-semibold">{localize(area.title)}</p>}
+                  <RichText text={localize(area.text)} format={area.format} primaryColor={colors.primary} />
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    );
+    return bubbleSheet ? createPortal(legend, bubbleSheet) : legend;
+  };
+
+  /** Highlights all areas of an explore stop point at once, each with a numbered marker. */
+  const renderExploreOverlay = (stopPoint: StopPoint) => {
+    const areas = stopPoint.areas.map((area) => resolveAreaAt(area, geometryTime));
+    const openArea = openExploreAreaIndex === null ? undefined : areas[openExploreAreaIndex];
+    return (
+      <div
+        ref={overlayRef}
+        className="absolute inset-0 w-full h-full cursor-pointer"
+        onClick={(e) => handleOverlayClick(e, stopPoint.areas, (area) => handleExploreArea(stopPoint, area))}
+        onKeyDown={handleOverlayKeyDown}
+      >
+        <CutoutMask id={`explore-mask-${stopPoint.id}`} areas={areas} />
+        {areas.map((area, index) => {
+          const isVisited = engineState.visitedAreaIndexes.includes(index);
+          const { left, top } = getHighlightStyle(area);
+          const label = localizePlainText(area);
+          return (
+            <React.Fragment key={area.id}>
+              <HighlightRenderer
+                area={area}
+                videoRef={videoRef}
+                theme={theme}
+                label={label}
+                masked={false}
+                interactive={false}
+                Highlight={Highlight}
+              />
+              <button
+                type="button"
+                className="absolute z-40 flex items-center justify-center w-7 h-7 -translate-x-1/2 -translate-y-1/2 rounded-full text-sm font-bold text-(--rtv-button-text) shadow-lg focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-white"
+                style={{ left, top, background: isVisited ? theme.successColor : theme.primary }}
+                aria-label={`${index + 1}. ${label}${isVisited ? ` (${labels.visited})` : ""}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleExploreArea(stopPoint, stopPoint.areas[index]);
+                }}
+              >
+                {isVisited ? <Check className="w-4 h-4" /> : index + 1}
+              </button>
+            </React.Fragment>
+          );
+        })}
+        {stopPoint.legend
+          ? renderExploreLegend(stopPoint)
+          : openArea &&
+            openExploreAreaIndex !== null && (
+              <SpeechBubble
+                key={openArea.id}
+                text={localize(openArea.text)}
+                format={openArea.format}
+                title={openArea.title === undefined ? undefined : localize(openArea.title)}
+                stepLabel={stepLabel}
+                hasNextButton={true}
+                onNext={() => closeExploreArea(openExploreAreaIndex)}
+                targetStyle={getSpeechBubbleTargetStyle(openArea)}
+                isClosing={false}
+                videoContainer={videoContainerRef.current}
+                sheetContainer={bubbleSheet}
+                continueMessage={labels.continue}
+                dir={dir}
+                primaryColor={colors.primary}
+                NextButton={NextButton}
+                body={renderBubbleContent(
+                  openArea,
+                  () => closeExploreArea(openExploreAreaIndex),
+                  0,
+                  engineState.stopPointIndex,
+                  true
+                )}
+              />
+            )}
+      </div>
+    );
+  };
+
   const renderTutorialOverlay = () => {
     if (!activeStopPoint || isBubbleClosing) return null;
-    const activeArea = activeStopPoint.areas.sort((a, b) => a.order - b.order)[activeAreaIndex];
+    if (isExploreStopPoint(activeStopPoint)) return renderExploreOverlay(activeStopPoint);
+    const activeArea = activeStopPoint.areas[activeAreaIndex];
     if (!activeArea) return null;
-    const speechBubbleTarget = getSpeechBubbleTargetStyle(activeArea);
+    if (activeArea.goTo) {
+      const choices = getChoiceAreas(activeStopPoint);
+      if (choices.length > 1) return renderChoices(choices);
+    }
+    const speechBubbleTarget = getSpeechBubbleTargetStyle(resolveAreaAt(activeArea, geometryTime));
     return (
       <div
+        ref={overlayRef}
         className="absolute inset-0 w-full h-full"
-        onClick={!activeArea.hasNextButton ? handleNextInteraction : undefined}
+        onClick={(e) => handleOverlayClick(e, [activeArea], handleNextInteraction)}
+        onKeyDown={handleOverlayKeyDown}
       >
         <HighlightRenderer
-          area={activeArea}
+          area={resolveAreaAt(activeArea, geometryTime)}
           videoRef={videoRef}
-          onClick={handleNextInteraction}
-          primaryColor={colors.primary}
-        />
-        <SpeechBubble
-          text={activeArea.text}
-          hasNextButton={activeArea.hasNextButton}
-          onNext={handleNextInteraction}
-          targetStyle={speechBubbleTarget}
-          isClosing={isBubbleClosing}
-          videoContainer={videoContainerRef.current}
-          continueMessage={labels.continue}
+          theme={theme}
+          label={localizePlainText(activeArea)}
+          onActivate={handleNextInteraction}
+          Highlight={Highlight}
         />
+        {activeArea.type === "quiz" ? (
+          renderQuiz(activeArea)
+        ) : (
+          <SpeechBubble
+            text={localize(activeArea.text)}
+            format={activeArea.format}
+            title={activeArea.title === undefined ? undefined : localize(activeArea.title)}
+            stepLabel={stepLabel}
+            hasNextButton={activeArea.hasNextButton}
+            onNext={handleNextInteraction}
+            targetStyle={speechBubbleTarget}
+            isClosing={isBubbleClosing}
+            videoContainer={videoContainerRef.current}
+            sheetContainer={bubbleSheet}
+            continueMessage={labels.continue}
+            hint={labels.missHint}
+            missCount={missCount}
+            dir={dir}
+            primaryColor={colors.primary}
+            NextButton={NextButton}
+            countdown={countdown}
+            body={renderBubbleContent(activeArea, handleNextInteraction, missCount)}
+          />
+        )}
       </div>
     );
   };
 
+  if (rawTutorialData && !parsedData.ok) {
+    return showDataErrors ? <DataErrorPanel errors={parsedData.errors} /> : null;
+  }
+
   if (!videoUrl || !tutorialData) {
     return (
       <div className="w-full aspect-video bg-slate-800 rounded-lg flex items-center justify-center text-slate-400">
@@ -603,72 +2019,261 @@ export const TutorialVideoPlayer: React.FC<TutorialVideoPlayerProps> = ({
     );
   }
 
-  if (isMobile && fallbackUrl) {
+  if (isMobile && mobileFallback && fallbackUrl) {
     return <FallbackPlayer videoUrl={fallbackUrl} playerKey={`fallback-${uniqueKey}`} />;
   }
 
   return (
-    <div className="w-full max-w-6xl mx-auto space-y-6" key={uniqueKey}>
-      <div className="relative group">
+    <div
+      className="w-full max-w-6xl mx-auto space-y-6"
+      key={uniqueKey}
+      style={themeToCssVariables(theme) as React.CSSProperties}
+    >
+      <div
+        className={
+          hasChapterOutline
+            ? "space-y-6 lg:space-y-0 lg:grid lg:grid-cols-[minmax(0,1fr)_20rem] lg:gap-6 lg:items-start"
+            : undefined
+        }
+      >
         <div
-          ref={videoContainerRef}
-          className="relative mx-auto w-full bg-black rounded-lg overflow-hidden shadow-2xl border border-white/10"
-          style={{ aspectRatio: videoAspectRatio }}
+          ref={playerAreaRef}
+          className={`relative group outline-none ${
+            fullscreen.isFullscreen ? "flex items-center justify-center bg-black" : ""
+          }`}
+          // Focusable so that keyboard shortcuts work after clicking the video.
+          tabIndex={-1}
+          onKeyDown={handlePlayerKeyDown}
         >
-          <ReactPlayer
-            ref={videoRef}
-            src={videoUrl}
-            playing={isPlaying}
-            onProgress={(e) => handleReady(e.currentTarget)}
-            onDurationChange={(e) => handleDuration(e.currentTarget.duration)}
-            onTimeUpdate={(e) => handleProgress(e.currentTarget)}
-            onEnded={handleVideoEnded}
-            width="100%"
-            height="100%"
-            className="absolute top-0 left-0"
-            key={`player-${uniqueKey}`}
-          />
+          <div
+            ref={videoContainerRef}
+            className="relative mx-auto w-full bg-black rounded-lg overflow-hidden shadow-2xl border border-white/10"
+            style={{
+              aspectRatio: videoAspectRatio,
+              // Letterbox the video in fullscreen so highlights stay aligned with it.
+              width: fullscreen.isFullscreen ? `min(100%, calc(100vh * ${videoAspectRatio}))` : undefined,
+            }}
+          >
+            {/* Playback is driven by the tutorial engine through the media adapter, not the `playing` prop. */}
+            <ReactPlayer
+              ref={handleVideoRef}
+              src={videoUrl}
+              onProgress={(e) => handleReady(e.currentTarget)}
+              width="100%"
+              height="100%"
+              className="absolute top-0 left-0"
+              playbackRate={playbackRate}
+              volume={volume}
+              muted={isMuted}
+              key={`player-${uniqueKey}`}
+            />
 
-          {!hasStarted && !isFinished && (
-            <div className="absolute inset-0 bg-gradient-to-br from-black/70 to-black/50 backdrop-blur-sm flex items-center justify-center">
-              <button
-                onClick={handleStart}
-                className="flex items-center gap-3 px-10 py-5 text-white font-bold rounded-2xl text-xl transition-all duration-300 transform hover:scale-105 shadow-2xl"
-                style={{ background: `linear-gradient(to right, ${colors.primary}, ${colors.secondary})` }}
+            {!hasStarted && !isFinished && StartScreen && (
+              <div role="dialog" aria-label={labels.start} className="absolute inset-0">
+                <StartScreen
+                  totalSteps={totalSteps}
+                  resumeStep={resumeStep}
+                  labels={labels}
+                  colors={colors}
+                  onStart={engine.start}
+                  onResume={handleResume}
+                  onStartOver={handleStartOver}
+                />
+              </div>
+            )}
+
+            {!hasStarted && !isFinished && !StartScreen && (
+              <div
+                role="dialog"
+                aria-labelledby={startDialogTitleId}
+                className="absolute inset-0 bg-gradient-to-br from-black/70 to-black/50 backdrop-blur-sm flex items-center justify-center"
               >
-                <Play className="w-6 h-6" /> {labels.start}
-              </button>
-            </div>
-          )}
+                {resumeStep === null ? (
+                  <button
+                    id={startDialogTitleId}
+                    onClick={engine.start}
+                    className={`flex items-center gap-3 px-10 py-5 font-bold text-xl ${PRIMARY_BUTTON_CLASS}`}
+                    style={{ background: `linear-gradient(to right, ${colors.primary}, ${colors.secondary})` }}
+                  >
+                    <Play className="w-6 h-6" /> {labels.start}
+                  </button>
+                ) : (
+                  <div className="flex flex-col items-center gap-4">
+                    <button
+                      id={startDialogTitleId}
+                      onClick={handleResume}
+                      className={`flex items-center gap-3 px-10 py-5 font-bold text-xl ${PRIMARY_BUTTON_CLASS}`}
+                      style={{ background: `linear-gradient(to right, ${colors.primary}, ${colors.secondary})` }}
+                    >
+                      <Play className="w-6 h-6" /> {labels.resume.replace("{step}", String(resumeStep))}
+                    </button>
+                    <button
+                      onClick={handleStartOver}
+                      className="flex items-center gap-2 px-6 py-3 bg-white/10 text-white font-semibold rounded-xl hover:bg-white/20 transition-all duration-300"
+                    >
+                      <RefreshCw className="w-5 h-5" /> {labels.startOver}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
 
-          {renderTutorialOverlay()}
+            {renderOverlayAreas()}
+            {renderTutorialOverlay()}
 
-          {isFinished && (
-            <div className="absolute inset-0 bg-gradient-to-br from-black/70 to-black/50 backdrop-blur-sm flex items-center justify-center">
-              <div className="flex flex-col text-center items-center">
-                <h3 className="text-3xl font-bold text-white mb-6">{labels.complete}</h3>
+            {captionCues && areCaptionsVisible && hasStarted && !isFinished && (
+              <CaptionsLayer cues={captionCues} currentTime={currentTime} lang={captionTrack?.srclang} />
+            )}
+
+            <div className="absolute top-2 right-2 z-[55] flex gap-2">
+              {captionCues && (
                 <button
-                  onClick={handleReplay}
-                  className="flex items-center gap-3 px-8 py-4 bg-green-500 text-white font-bold rounded-2xl text-lg transition-all duration-300 transform hover:scale-105 shadow-2xl"
+                  onClick={() => setAreCaptionsVisible((visible) => !visible)}
+                  aria-label={areCaptionsVisible ? labels.hideCaptions : labels.showCaptions}
+                  className="p-2 rounded-full bg-black/60 text-white"
                 >
-                  <RefreshCw className="w-6 h-6" /> {labels.replay}
+                  {areCaptionsVisible ? <Captions className="w-5 h-5" /> : <CaptionsOff className="w-5 h-5" />}
                 </button>
-              </div>
+              )}
+              {!showControls && isMobile && fullscreen.isSupported && (
+                <button
+                  onClick={fullscreen.toggle}
+                  aria-label={fullscreen.isFullscreen ? labels.exitFullscreen : labels.fullscreen}
+                  className="p-2 rounded-full bg-black/60 text-white"
+                >
+                  {fullscreen.isFullscreen ? <Minimize className="w-5 h-5" /> : <Maximize className="w-5 h-5" />}
+                </button>
+              )}
             </div>
-          )}
+
+            {showControls && hasStarted && !isFinished && (
+              <ControlBar
+                isPlaying={engineState.status === "playing"}
+                canTogglePlay={engineState.status === "playing" || engineState.status === "paused"}
+                onTogglePlay={togglePlay}
+                playbackRate={playbackRate}
+                onPlaybackRateChange={setPlaybackRate}
+                volume={volume}
+                isMuted={isMuted}
+                onVolumeChange={changeVolume}
+                onToggleMute={() => setIsMuted((muted) => !muted)}
+                isFullscreen={fullscreen.isFullscreen}
+                canFullscreen={fullscreen.isSupported}
+                onToggleFullscreen={fullscreen.toggle}
+                isPinned={engineState.status === "paused"}
+                labels={labels}
+              />
+            )}
+
+            {isExitConfirmOpen && activeStopPoint && (
+              <ExitConfirmDialog
+                labels={{ prompt: labels.exitPrompt, exit: labels.exit, stay: labels.stay }}
+                onExit={handleExit}
+                onStay={() => setIsExitConfirmOpen(false)}
+              />
+            )}
+
+            <div className="sr-only" aria-live="polite" aria-atomic="true">
+              {activeStopPoint && !isBubbleClosing
+                ? localizePlainText(activeStopPoint.areas[activeAreaIndex])
+                : overlayAreas.map(({ area }) => localizePlainText(area)).join(" ")}
+            </div>
+
+            {isFinished && CompleteScreen && (
+              <div
+                ref={completeScreenRef}
+                role="dialog"
+                aria-label={labels.complete}
+                tabIndex={-1}
+                className="absolute inset-0"
+              >
+                <CompleteScreen
+                  totalSteps={totalSteps}
+                  completedStopPointIds={completedStopPointIds}
+                  labels={labels}
+                  colors={colors}
+                  onReplay={engine.reset}
+                />
+              </div>
+            )}
+
+            {isFinished && !CompleteScreen && (
+              <div
+                role="dialog"
+                aria-labelledby={completeDialogTitleId}
+                className="absolute inset-0 bg-gradient-to-br from-black/70 to-black/50 backdrop-blur-sm flex items-center justify-center"
+              >
+                <div className="flex flex-col text-center items-center">
+                  <h3 id={completeDialogTitleId} className="text-3xl font-bold text-white mb-6">
+                    {labels.complete}
+                  </h3>
+                  <button
+                    ref={replayButtonRef}
+                    onClick={engine.reset}
+                    className={`flex items-center gap-3 px-8 py-4 bg-(--rtv-success-color) font-bold text-lg ${PRIMARY_BUTTON_CLASS}`}
+                  >
+                    <RefreshCw className="w-6 h-6" /> {labels.replay}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Speech bubbles of the mobile layout are rendered here, below the video. */}
+          {isMobileLayout && <div ref={setSheetElement} className="mt-3 space-y-3" />}
         </div>
+
+        {hasChapterOutline && tutorialData && (
+          <div className="p-4 bg-(--rtv-panel-background) backdrop-blur-xl border border-(--rtv-panel-border) rounded-(--rtv-bubble-radius) lg:max-h-[32rem] lg:overflow-y-auto">
+            <ChapterOutline
+              chapters={chapterProgress}
+              activeChapterIndex={activeChapterIndex}
+              overall={countCompletedStopPoints(tutorialData.stopPoints, completedStopPointIds, skippedRanges)}
+              localize={(chapter) => ({
+                title: localize(chapter.title),
+                description: chapter.description === undefined ? undefined : localize(chapter.description),
+              })}
+              primaryColor={colors.primary}
+              labels={labels}
+              onSelectChapter={navigateToChapter}
+            />
+          </div>
+        )}
       </div>
 
-      {showTimeline && tutorialData && (
-        <div className="p-6 bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl">
+      {showTimeline && tutorialData && Timeline && (
+        <Timeline
+          duration={duration}
+          currentTime={currentTime}
+          stopPoints={tutorialData.stopPoints}
+          stopPointPreviews={stopPointPreviews}
+          skippedRanges={skippedRanges}
+          activeStopPointIndex={activeStopPoint ? engineState.stopPointIndex : null}
+          chapters={timelineChapters}
+          primaryColor={colors.primary}
+          onSelectStop={navigateToStop}
+          onSelectStart={navigateToStart}
+        />
+      )}
+
+      {showTimeline && tutorialData && !Timeline && (
+        <div className="p-6 bg-(--rtv-panel-background) backdrop-blur-xl border border-(--rtv-panel-border) rounded-(--rtv-bubble-radius)">
           <SegmentedTimeline
             duration={duration}
             currentTime={currentTime}
             stopPoints={tutorialData.stopPoints}
+            stopPointPreviews={stopPointPreviews}
+            skippedRanges={skippedRanges}
+            chapters={timelineChapters}
             primaryColor={colors.primary}
+            labels={{ start: labels.start, steps: labels.timelineSteps, step: labels.step }}
+            onSelectStop={navigateToStop}
+            onSelectStart={navigateToStart}
           />
         </div>
       )}
     </div>
   );
 };
+
+export const TutorialVideoPlayer = forwardRef(TutorialVideoPlayerRender);
@@ -12,32 +12,490 @@ export interface BoundingBox {
   height: number;
 }
 
+/** A plain string, or translations keyed by locale, e.g. `{ en: "Save", ja: "保存" }`. */
+export type LocalizedText = string | Record<string, string>;
+
+/** Where to continue after an area is completed, instead of the next area or stop point. */
+export type AreaGoTo = { stopPointId: string } | { time: number };
+
+/** How an area's `text` is rendered. */
+export type TextFormat = "plain" | "markdown";
+
+/** Per-area overrides of the player theme's highlight. */
+export interface HighlightStyle {
+  /** Opacity of the dimmed video around the area, from 0 (not dimmed) to 1. */
+  maskOpacity?: number;
+  borderStyle?: "dashed" | "solid" | "dotted" | "none";
+  /** Any CSS color. Defaults to the theme's primary color. */
+  borderColor?: string;
+}
+
 export interface InteractionBase {
   id: string;
-  text: string;
+  text: LocalizedText;
+  /**
+   * `"markdown"` renders `text` with a safe Markdown subset: paragraphs, lists, `**bold**`, `*italic*`,
+   * `` `code` ``, links and images. HTML is never rendered.
+   */
+  format?: TextFormat;
+  /** Optional heading shown above the text. */
+  title?: LocalizedText;
+  /**
+   * Seconds after which the area continues on its own, with a visible countdown. Overrides the stop
+   * point's value. In overlay stop points, how long the area is shown. Ignored for quizzes and branches.
+   */
+  autoAdvanceAfter?: number;
   order: number;
   hasNextButton: boolean;
+  /**
+   * Branch target. All areas of a stop point that have a `goTo` are shown together as a choice,
+   * so they should come last in `order`.
+   */
+  goTo?: AreaGoTo;
+  /** Overrides the theme for this area's highlight, e.g. to dim less of the video around a small detail. */
+  highlightStyle?: HighlightStyle;
+}
+
+/** Easing of the motion from a keyframe to the next one. */
+export type KeyframeEasing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export interface BoxKeyframe {
+  /** Video time in seconds. */
+  time: number;
+  box: BoundingBox;
+  /** @default "linear" */
+  easing?: KeyframeEasing;
+}
+
+export interface PointsKeyframe {
+  /** Video time in seconds. */
+  time: number;
+  /** Same number of vertices as the area's `points`. */
+  points: Point[];
+  /** @default "linear" */
+  easing?: KeyframeEasing;
 }
 
 export interface BoxInteractionArea extends InteractionBase {
   type: "box";
   box: BoundingBox;
+  /**
+   * Moves the box with the video, interpolating between keyframes in increasing time order. Before the
+   * first and after the last keyframe, the box stays at that keyframe. `box` is used when this is empty.
+   */
+  keyframes?: BoxKeyframe[];
 }
 
 export interface OvalInteractionArea extends InteractionBase {
   type: "oval";
   box: BoundingBox;
+  /** See `BoxInteractionArea.keyframes`. */
+  keyframes?: BoxKeyframe[];
 }
 
 export interface PolygonInteractionArea extends InteractionBase {
   type: "polygon";
-  points: [Point, Point, Point, Point];
+  /** Vertices in drawing order; at least three. */
+  points: Point[];
+  /** Moves the vertices with the video. See `BoxInteractionArea.keyframes`. */
+  keyframes?: PointsKeyframe[];
+}
+
+export interface QuizOption {
+  id: string;
+  text: LocalizedText;
+}
+
+/** A multiple-choice question. `text` holds the question; the player advances on a correct answer or once `maxAttempts` run out. */
+export interface QuizInteractionArea extends InteractionBase {
+  type: "quiz";
+  options: QuizOption[];
+  correctOptionId: string;
+  feedback?: {
+    correct?: LocalizedText;
+    incorrect?: LocalizedText;
+  };
+  /** Number of answers allowed before the correct one is revealed. Unlimited if omitted. */
+  maxAttempts?: number;
+  /** Optional region to highlight while the question is shown. */
+  box?: BoundingBox;
 }
 
-export type InteractionArea = BoxInteractionArea | OvalInteractionArea | PolygonInteractionArea;
+export type InteractionArea = BoxInteractionArea | OvalInteractionArea | PolygonInteractionArea | QuizInteractionArea;
+
+export interface QuizAnswer {
+  stopPoint: StopPoint;
+  area: QuizInteractionArea;
+  optionId: string;
+  isCorrect: boolean;
+  /** 1-based number of this attempt. */
+  attempt: number;
+  /** Attempts left after this one, or null if unlimited. */
+  attemptsRemaining: number | null;
+}
+
+export interface MissClick {
+  stopPoint: StopPoint;
+  area: InteractionArea;
+  /** Number of missed clicks on this area so far, including this one. */
+  attempts: number;
+  /** Where the click landed, in 0–1 video coordinates. */
+  point: Point;
+}
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "image"; src: string; alt: string };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * `"pause"` stops the video until the user completes every area. `"overlay"` never pauses: the areas
+ * are shown one after another while the video keeps playing, each for its `autoAdvanceAfter` seconds.
+ */
+export type StopPointMode = "pause" | "overlay";
+
+/**
+ * How a pausing stop point presents its areas: one after another in `order`, or all at once with
+ * numbered markers so the user can explore them in any order.
+ */
+export type StopPointLayout = "sequence" | "explore";
 
 export interface StopPoint {
   id: string;
   time: number;
+  /** @default "pause" */
+  mode?: StopPointMode;
+  /**
+   * With `"explore"`, every area is highlighted at once and the user opens them in any order. The video
+   * continues once all areas, or all of `requiredAreaIds`, have been visited. Explore stop points wait for
+   * the user, so `autoAdvanceAfter` and `hasNextButton` are ignored and quizzes and branches are not allowed.
+   * @default "sequence"
+   */
+  layout?: StopPointLayout;
+  /** Ids of the areas of an `"explore"` stop point that must be visited before the video continues. */
+  requiredAreaIds?: string[];
+  /**
+   * Lists the texts of an `"explore"` stop point's areas in a numbered legend. Areas are visited by
+   * clicking them in the video. Without a legend, clicking an area opens its speech bubble instead and
+   * the area counts as visited once the bubble is closed.
+   */
+  legend?: boolean;
+  /** Default `autoAdvanceAfter` of the stop point's areas. */
+  autoAdvanceAfter?: number;
   areas: InteractionArea[];
 }
+
+/** A named section of a tutorial, grouping stop points that follow each other. */
+export interface Chapter {
+  id: string;
+  title: LocalizedText;
+  description?: LocalizedText;
+  /** Ids of the chapter's stop points. They must be consecutive, and chapters must follow the video's order. */
+  stopPointIds: string[];
+}
+
+export type TutorialDataVersion = "1.1";
+
+export interface TutorialJsonData {
+  version: TutorialDataVersion;
+  /** Groups stop points into chapters shown on the timeline and in the chapter outline. */
+  chapters?: Chapter[];
+  stopPoints: StopPoint[];
+}
+
+export interface TutorialDataError {
+  /** JSON path of the offending value, e.g. `$.stopPoints[0].areas[1].points`. */
+  path: string;
+  message: string;
+}
+
+/** One difference between two versions of tutorial data, see `diffTutorialData`. */
+export interface TutorialDataChange {
+  type: "added" | "removed" | "changed";
+  /** JSON path in the new version, or in the old one for removals. */
+  path: string;
+  /** Human-readable description, e.g. `Area "save" moved from (0.1, 0.2) to (0.3, 0.2).` */
+  message: string;
+}
+
+export type ParseTutorialDataResult =
+  | { ok: true; data: TutorialJsonData; errors: []; warnings: TutorialDataError[] }
+  | { ok: false; data: null; errors: TutorialDataError[]; warnings: TutorialDataError[] };
+
+export interface TutorialFlowAnalysis {
+  /** Ids of stop points that no path from the start of the video reaches. */
+  unreachableStopPointIds: string[];
+  /** Groups of stop point ids that can branch back into each other. */
+  loops: string[][];
+  /** Ids of reachable stop points from which the end of the video can never be reached. */
+  trappedStopPointIds: string[];
+}
+
+/**
+ * What to do with stop points skipped by a forward seek:
+ * - `"last"` triggers the last skipped stop point,
+ * - `"none"` triggers none of them,
+ * - `"all"` seeks back to the first skipped stop point so that all of them are replayed.
+ */
+export type SkippedStopPolicy = "last" | "none" | "all";
+
+/** A WebVTT captions file for the `captions` prop. */
+export interface CaptionTrack {
+  /** URL of the `.vtt` file. It is fetched, so files on other origins need CORS headers. */
+  src: string;
+  /** Language of the captions, e.g. `en` or `pt-BR`, used to pick the track matching the player's `locale`. */
+  srclang?: string;
+  label?: string;
+  /** Picked when no track matches the player's locale. Otherwise the first track is used. */
+  default?: boolean;
+}
+
+export interface WebVttCue {
+  id?: string;
+  /** Start and end in seconds. */
+  start: number;
+  end: number;
+  /** Cue payload, with WebVTT markup such as `<v Speaker>` left in place. */
+  text: string;
+}
+
+/** Colors, radii and highlight styles of the player. Values are CSS values unless noted otherwise. */
+export interface TutorialTheme {
+  /** Highlights, buttons, links and the timeline. */
+  primary: string;
+  /** End color of the start button's gradient. */
+  secondary: string;
+  /** Speech bubbles, quizzes and dialogs. */
+  bubbleBackground: string;
+  /** Border of speech bubbles, their arrow and quiz options. */
+  bubbleBorder: string;
+  bubbleText: string;
+  /** Step counters, countdowns and other secondary text. */
+  bubbleMutedText: string;
+  bubbleRadius: string;
+  /** Opacity of the glow in the primary color around speech bubbles, from 0 to 1. */
+  glowOpacity: number;
+  /** Text on buttons filled with the primary, success or error color. */
+  buttonText: string;
+  buttonRadius: string;
+  /** Color the video is dimmed with around highlights. */
+  maskColor: string;
+  /** From 0 (not dimmed) to 1. */
+  maskOpacity: number;
+  highlightBorderStyle: "dashed" | "solid" | "dotted" | "none";
+  /** In pixels. */
+  highlightBorderWidth: number;
+  /** Corner radius of box highlights. */
+  highlightRadius: string;
+  /** The replay button and correct quiz answers. */
+  successColor: string;
+  /** Wrong quiz answers and the exit button. */
+  errorColor: string;
+  /** Hints after a missed click. */
+  warningColor: string;
+  /** The panel around the timeline. */
+  panelBackground: string;
+  panelBorder: string;
+  /** Timeline segments not played yet. */
+  trackColor: string;
+}
+
+/** Built-in themes. `"auto"` follows `prefers-color-scheme` and switches to high contrast for `prefers-contrast: more`. */
+export type TutorialThemeName = "auto" | "dark" | "light" | "highContrast";
+
+/** A built-in theme with some of its values replaced. */
+export interface TutorialThemeOverrides extends Partial<TutorialTheme> {
+  /**
+   * Theme the other values are taken from.
+   * @default "dark"
+   */
+  base?: TutorialThemeName;
+}
+
+/** Progress stored between sessions so a tutorial can be resumed. */
+export interface TutorialProgress {
+  /** Hash of the tutorial data the progress was recorded for. Progress of changed data is discarded. */
+  dataHash: string;
+  completedStopPointIds: string[];
+  /** The stop point that was active when the progress was saved, or null between stop points. */
+  activeStopPointId: string | null;
+  /** Video position in seconds. */
+  time: number;
+  /** `Date.now()` at the time of saving. */
+  updatedAt: number;
+}
+
+/** Progress through a `TutorialPlaylist`, stored between sessions so the course can be resumed. */
+export interface TutorialPlaylistProgress {
+  /** The lesson the user was on. */
+  lessonId: string | null;
+  /** Ids of the lessons whose video was watched to the end. */
+  completedLessonIds: string[];
+  /** Ids of the completed stop points of each lesson, keyed by lesson id. */
+  completedStopPointIds: Record<string, string[]>;
+  /** `Date.now()` at the time of saving. */
+  updatedAt: number;
+}
+
+/**
+ * Where progress is stored. `localStorage` and `sessionStorage` satisfy this interface; a custom
+ * adapter (e.g. one that calls your backend) may return promises.
+ */
+export interface TutorialProgressStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+interface TutorialEventBase {
+  /** `Date.now()` when the event happened. */
+  timestamp: number;
+  /** Video position in seconds. */
+  videoTime: number;
+  /** The stop point the event belongs to, or null outside of stop points. */
+  stopPointId: string | null;
+  /** The area the event belongs to, or null if it is not about a single area. */
+  areaId: string | null;
+}
+
+/**
+ * Analytics events reported through `onEvent`:
+ * - `start` has `resumed: true` if the user resumed saved progress,
+ * - `areaCompleted` has `dwellMs`, the time the area was shown for,
+ * - `seek` has `fromTime` and `toTime`, the video positions before and after the seek. Its `stopPointId` is
+ *   the stop point the user left, or null if none was active, also when jumping to a stop point,
+ * - `hidden` and `visible` are sent when the page is hidden or shown again mid-tutorial, e.g. on switching tabs,
+ * - `abandon` is sent when the player unmounts, the page is hidden or the user exits with Esc mid-tutorial,
+ *   at most once until the user returns to the page or starts over,
+ * - `chapterStart` is sent whenever the video enters another chapter, `chapterComplete` once all stop
+ *   points of a chapter on the path taken are completed. Both have the chapter's `chapterId`.
+ */
+export type TutorialEvent =
+  | (TutorialEventBase & { type: "start"; resumed: boolean })
+  | (TutorialEventBase & { type: "stopReached" })
+  | (TutorialEventBase & { type: "areaShown" })
+  | (TutorialEventBase & { type: "areaCompleted"; dwellMs: number })
+  | (TutorialEventBase & { type: "missClick"; attempts: number; point: Point })
+  | (TutorialEventBase & { type: "seek"; fromTime: number; toTime: number })
+  | (TutorialEventBase & { type: "pause" })
+  | (TutorialEventBase & { type: "hidden" })
+  | (TutorialEventBase & { type: "visible" })
+  | (TutorialEventBase & { type: "abandon"; reason: "unmount" | "hidden" | "exit" })
+  | (TutorialEventBase & { type: "chapterStart"; chapterId: string })
+  | (TutorialEventBase & { type: "chapterComplete"; chapterId: string })
+  | (TutorialEventBase & { type: "complete" });
+
+export type TutorialEventType = TutorialEvent["type"];
+
+/**
+ * States of the tutorial engine. `transitioning` is the short pause between completing an area
+ * and showing the next one (or resuming playback), while the speech bubble fades out.
+ */
+export type TutorialEngineStatus = "idle" | "playing" | "paused" | "atStop" | "transitioning" | "finished";
+
+export interface TutorialEngineState {
+  status: TutorialEngineStatus;
+  /** Index of the active stop point, or of the next one to be reached when no stop point is active. */
+  stopPointIndex: number;
+  /** Index of the shown area of the active stop point. */
+  activeAreaIndex: number;
+  /** Index of the area whose completion started the current transition. */
+  completingAreaIndex: number;
+  /** Indexes of the areas visited so far at an `"explore"` stop point, in the order they were visited. */
+  visitedAreaIndexes: number[];
+  /**
+   * Incremented whenever a transition starts or is cancelled and whenever another area is shown,
+   * so stale `transitionEnd` and `autoAdvance` actions are ignored.
+   */
+  transitionId: number;
+  /**
+   * Milliseconds until the shown area continues on its own, or null if it waits for the user. While the
+   * countdown is paused, the time that was left.
+   */
+  autoAdvanceDelay: number | null;
+  /** When the countdown of `autoAdvanceDelay` started, from `TutorialEngineContext.now`, or null while paused. */
+  autoAdvanceStartedAt: number | null;
+  currentTime: number;
+  duration: number;
+  /** Parts of the video jumped over by branches. */
+  skippedRanges: TimeRange[];
+  /** Ids of the stop points completed so far, in the order they were completed. */
+  completedStopPointIds: string[];
+  isSeeking: boolean;
+  /** Target of the last seek made by the engine itself, which is not treated as a user seek. */
+  pendingSeekTime: number | null;
+}
+
+/** Events a media element reports to the engine through a `TutorialMediaAdapter`. */
+export type TutorialMediaEvent =
+  | { type: "timeUpdate"; time: number }
+  | { type: "seeking" }
+  | { type: "seeked"; time: number }
+  | { type: "durationChange"; duration: number }
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "ended" };
+
+/** Lets the engine drive any media element, e.g. an `HTMLVideoElement` or a third-party player. */
+export interface TutorialMediaAdapter {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  /** Starts forwarding media events to `listener` and returns a function that stops it. */
+  subscribe: (listener: (event: TutorialMediaEvent) => void) => () => void;
+  /**
+   * Optional. Calls `onReach` while playing on the last frame at or before `time`, or within `tolerance`
+   * seconds of it, and returns a function that cancels it. Without it, stop points are detected from
+   * `timeUpdate` events, which most players send only every 250ms.
+   */
+  scheduleAt?: (time: number, tolerance: number, onReach: () => void) => () => void;
+}
+
+export type TutorialEngineAction =
+  | TutorialMediaEvent
+  | { type: "start" }
+  | { type: "resume"; progress: Pick<TutorialProgress, "completedStopPointIds" | "activeStopPointId" | "time"> }
+  // Requested by the app rather than reported by the media, so they also hold and resume auto-advance at stop points.
+  | { type: "play"; requested: true }
+  | { type: "pause"; requested: true }
+  | { type: "next" }
+  | { type: "choose"; areaIndex: number }
+  | { type: "visit"; areaIndex: number }
+  | { type: "previous" }
+  | { type: "jumpToStop"; stopPointIndex: number; areaIndex?: number }
+  | { type: "jumpToStart" }
+  | { type: "transitionEnd"; transitionId: number }
+  | { type: "autoAdvance"; transitionId: number }
+  | { type: "reset" };
+
+/**
+ * Notifications the engine sends to its consumer through `onEvent`. `seek` is only sent for seeks made
+ * on the media element by the user, with the stop point that was active before it.
+ */
+export type TutorialEngineEvent =
+  | { type: "start"; resumed: boolean }
+  | { type: "stopReached"; stopPointIndex: number }
+  | { type: "areaCompleted"; stopPointIndex: number; areaIndex: number }
+  | { type: "seek"; fromTime: number; toTime: number; stopPointIndex: number | null }
+  | { type: "pause" }
+  | { type: "complete" };
+
+/** Side effects requested by the engine reducer, run by `useTutorialEngine`. */
+export type TutorialEngineEffect =
+  | { type: "play" }
+  | { type: "pause" }
+  | { type: "seek"; time: number }
+  | { type: "schedule"; action: TutorialEngineAction; delay: number }
+  | { type: "notify"; event: TutorialEngineEvent };
@@ -0,0 +1,69 @@
+import { Chapter, StopPoint, TimeRange } from "../types";
+
+export interface ChapterProgress {
+  chapter: Chapter;
+  /** Indexes of the chapter's stop points, in video order. */
+  stopPointIndexes: number[];
+  /** Time of the chapter's first stop point, where the chapter begins on the timeline. */
+  start: number;
+  /** Stop points completed so far. */
+  completed: number;
+  /** Stop points on the path taken, i.e. not jumped over by a branch. */
+  total: number;
+  isComplete: boolean;
+}
+
+/** Returns how many of the stop points were completed and how many lie on the path taken. */
+export const countCompletedStopPoints = (
+  stopPoints: StopPoint[],
+  completedStopPointIds: string[],
+  skippedRanges: TimeRange[]
+): { completed: number; total: number } => {
+  // A branch skips the stop points between the one it starts at and its target, but not those two.
+  const onPath = stopPoints.filter(
+    (stopPoint) => !skippedRanges.some((range) => stopPoint.time > range.start && stopPoint.time < range.end)
+  );
+  return {
+    completed: onPath.filter((stopPoint) => completedStopPointIds.includes(stopPoint.id)).length,
+    total: onPath.length,
+  };
+};
+
+export const getChapterProgress = (
+  chapters: Chapter[],
+  stopPoints: StopPoint[],
+  completedStopPointIds: string[],
+  skippedRanges: TimeRange[]
+): ChapterProgress[] =>
+  chapters.map((chapter) => {
+    const stopPointIndexes = chapter.stopPointIds
+      .map((stopPointId) => stopPoints.findIndex((stopPoint) => stopPoint.id === stopPointId))
+      .filter((index) => index >= 0)
+      .sort((a, b) => a - b);
+    const { completed, total } = countCompletedStopPoints(
+      stopPointIndexes.map((index) => stopPoints[index]),
+      completedStopPointIds,
+      skippedRanges
+    );
+    return {
+      chapter,
+      stopPointIndexes,
+      start: stopPoints[stopPointIndexes[0]]?.time ?? 0,
+      completed,
+      total,
+      isComplete: total > 0 && completed === total,
+    };
+  });
+
+/**
+ * Returns the index of the chapter the video is in at `time`: the chapter of the last stop point at or
+ * before `time`. Returns -1 before the first chapter and between chapters.
+ */
+export const findChapterIndexAt = (progress: ChapterProgress[], stopPoints: StopPoint[], time: number): number => {
+  let stopPointIndex = -1;
+  stopPoints.forEach((stopPoint, index) => {
+    if (stopPoint.time <= time) stopPointIndex = index;
+  });
+  if (stopPointIndex < 0) return -1;
+  return progress.findIndex(({ stopPointIndexes }) => stopPointIndexes.includes(stopPointIndex));
+};
@@ -0,0 +1,329 @@
+import {
+  BoundingBox,
+  Chapter,
+  InteractionArea,
+  LocalizedText,
+  StopPoint,
+  TutorialDataChange,
+  TutorialJsonData,
+} from "../types";
+import { formatVideoTime } from "./timeRanges";
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const describeValue = (value: unknown) => (value === undefined ? "none" : JSON.stringify(value));
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Plain strings are keyed by `""` so they compare against translation maps locale by locale. */
+const toTranslations = (text: LocalizedText | undefined): Record<string, string> =>
+  text === undefined ? {} : typeof text === "string" ? { "": text } : text;
+
+const diffText = (
+  label: string,
+  before: LocalizedText | undefined,
+  after: LocalizedText | undefined,
+  path: string,
+  changes: TutorialDataChange[]
+) => {
+  const beforeTranslations = toTranslations(before);
+  const afterTranslations = toTranslations(after);
+  const locales = Array.from(new Set([...Object.keys(beforeTranslations), ...Object.keys(afterTranslations)]));
+  locales.forEach((locale) => {
+    const from = beforeTranslations[locale];
+    const to = afterTranslations[locale];
+    if (from === to) return;
+    const subject = locale ? `${label} (${locale})` : label;
+    const textPath = locale ? `${path}.${locale}` : path;
+    if (from === undefined) {
+      changes.push({ type: "added", path: textPath, message: `${subject} added: ${JSON.stringify(to)}.` });
+    } else if (to === undefined) {
+      changes.push({ type: "removed", path: textPath, message: `${subject} removed: ${JSON.stringify(from)}.` });
+    } else {
+      changes.push({
+        type: "changed",
+        path: textPath,
+        message: `${subject} changed from ${JSON.stringify(from)} to ${JSON.stringify(to)}.`,
+      });
+    }
+  });
+};
+
+const describePosition = (box: BoundingBox) => `(${round(box.x)}, ${round(box.y)})`;
+const describeSize = (box: BoundingBox) => `${round(box.width)}×${round(box.height)}`;
+
+const diffBox = (
+  subject: string,
+  before: BoundingBox | undefined,
+  after: BoundingBox | undefined,
+  path: string,
+  changes: TutorialDataChange[]
+) => {
+  if (isEqual(before, after)) return;
+  if (!before || !after) {
+    changes.push({
+      type: "changed",
+      path,
+      message: `${subject} region changed from ${describeValue(before)} to ${describeValue(after)}.`,
+    });
+    return;
+  }
+  const isMoved = before.x !== after.x || before.y !== after.y;
+  const isResized = before.width !== after.width || before.height !== after.height;
+  const message =
+    isMoved && isResized
+      ? `${subject} moved and resized from ${describePosition(before)} ${describeSize(before)} to ${describePosition(
+          after
+        )} ${describeSize(after)}.`
+      : isMoved
+      ? `${subject} moved from ${describePosition(before)} to ${describePosition(after)}.`
+      : `${subject} resized from ${describeSize(before)} to ${describeSize(after)}.`;
+  changes.push({ type: "changed", path, message });
+};
+
+// Fields compared as a whole; geometry, texts and quiz options get more specific messages.
+const AREA_FIELDS = ["type", "format", "order", "hasNextButton", "autoAdvanceAfter", "goTo", "highlightStyle"] as const;
+const QUIZ_FIELDS = ["correctOptionId", "maxAttempts"] as const;
+
+const diffArea = (
+  before: InteractionArea,
+  after: InteractionArea,
+  stopPointId: string,
+  path: string,
+  changes: TutorialDataChange[]
+) => {
+  // Area ids are only unique within a stop point, so messages name both.
+  const area = `area "${after.id}" of stop point "${stopPointId}"`;
+  const subject = `Area "${after.id}" of stop point "${stopPointId}"`;
+  AREA_FIELDS.forEach((field) => {
+    if (isEqual(before[field], after[field])) return;
+    changes.push({
+      type: "changed",
+      path: `${path}.${field}`,
+      message: `${subject} ${field} changed from ${describeValue(before[field])} to ${describeValue(after[field])}.`,
+    });
+  });
+
+  const beforeBox = before.type === "polygon" ? undefined : before.box;
+  const afterBox = after.type === "polygon" ? undefined : after.box;
+  diffBox(subject, beforeBox, afterBox, `${path}.box`, changes);
+  const beforePoints = before.type === "polygon" ? before.points : undefined;
+  const afterPoints = after.type === "polygon" ? after.points : undefined;
+  if (!isEqual(beforePoints, afterPoints) && beforePoints && afterPoints) {
+    changes.push({ type: "changed", path: `${path}.points`, message: `${subject} reshaped.` });
+  }
+  const beforeKeyframes = before.type === "quiz" ? undefined : before.keyframes;
+  const afterKeyframes = after.type === "quiz" ? undefined : after.keyframes;
+  if (!isEqual(beforeKeyframes, afterKeyframes)) {
+    changes.push({ type: "changed", path: `${path}.keyframes`, message: `${subject} keyframes changed.` });
+  }
+
+  diffText(`Title of ${area}`, before.title, after.title, `${path}.title`, changes);
+  diffText(`Text of ${area}`, before.text, after.text, `${path}.text`, changes);
+
+  if (before.type !== "quiz" || after.type !== "quiz") return;
+  QUIZ_FIELDS.forEach((field) => {
+    if (isEqual(before[field], after[field])) return;
+    changes.push({
+      type: "changed",
+      path: `${path}.${field}`,
+      message: `${subject} ${field} changed from ${describeValue(before[field])} to ${describeValue(after[field])}.`,
+    });
+  });
+  const beforeOptionIds = before.options.map((option) => option.id);
+  after.options.forEach((option, index) => {
+    const optionPath = `${path}.options[${index}]`;
+    const previous = before.options.find(({ id }) => id === option.id);
+    if (!previous) {
+      changes.push({ type: "added", path: optionPath, message: `Option "${option.id}" added to ${area}.` });
+      return;
+    }
+    diffText(`Text of option "${option.id}"`, previous.text, option.text, `${optionPath}.text`, changes);
+  });
+  beforeOptionIds
+    .filter((id) => !after.options.some((option) => option.id === id))
+    .forEach((id) => {
+      changes.push({
+        type: "removed",
+        path: `${path}.options[${beforeOptionIds.indexOf(id)}]`,
+        message: `Option "${id}" removed from ${area}.`,
+      });
+    });
+  diffText(
+    `Correct feedback of ${area}`,
+    before.feedback?.correct,
+    after.feedback?.correct,
+    `${path}.feedback.correct`,
+    changes
+  );
+  diffText(
+    `Incorrect feedback of ${area}`,
+    before.feedback?.incorrect,
+    after.feedback?.incorrect,
+    `${path}.feedback.incorrect`,
+    changes
+  );
+};
+
+const diffStopPoint = (before: StopPoint, after: StopPoint, path: string, changes: TutorialDataChange[]) => {
+  const subject = `Stop point "${after.id}"`;
+  if (before.time !== after.time) {
+    changes.push({
+      type: "changed",
+      path: `${path}.time`,
+      message: `${subject} moved from ${formatVideoTime(before.time)} to ${formatVideoTime(after.time)}.`,
+    });
+  }
+  if ((before.mode ?? "pause") !== (after.mode ?? "pause")) {
+    changes.push({
+      type: "changed",
+      path: `${path}.mode`,
+      message: `${subject} mode changed from "${before.mode ?? "pause"}" to "${after.mode ?? "pause"}".`,
+    });
+  }
+  if ((before.layout ?? "sequence") !== (after.layout ?? "sequence")) {
+    changes.push({
+      type: "changed",
+      path: `${path}.layout`,
+      message: `${subject} layout changed from "${before.layout ?? "sequence"}" to "${after.layout ?? "sequence"}".`,
+    });
+  }
+  if (before.autoAdvanceAfter !== after.autoAdvanceAfter) {
+    changes.push({
+      type: "changed",
+      path: `${path}.autoAdvanceAfter`,
+      message: `${subject} autoAdvanceAfter changed from ${describeValue(before.autoAdvanceAfter)} to ${describeValue(
+        after.autoAdvanceAfter
+      )}.`,
+    });
+  }
+};
+
+const describeStopPointIds = (stopPointIds: string[]) => stopPointIds.map((id) => `"${id}"`).join(", ");
+
+/** Chapters are matched by id, like stop points. */
+const diffChapters = (before: Chapter[], after: Chapter[], changes: TutorialDataChange[]) => {
+  after.forEach((chapter, index) => {
+    const path = `$.chapters[${index}]`;
+    const previous = before.find(({ id }) => id === chapter.id);
+    if (!previous) {
+      changes.push({
+        type: "added",
+        path,
+        message: `Chapter "${chapter.id}" added with stop points ${describeStopPointIds(chapter.stopPointIds)}.`,
+      });
+      return;
+    }
+    diffText(`Title of chapter "${chapter.id}"`, previous.title, chapter.title, `${path}.title`, changes);
+    diffText(
+      `Description of chapter "${chapter.id}"`,
+      previous.description,
+      chapter.description,
+      `${path}.description`,
+      changes
+    );
+    if (!isEqual(previous.stopPointIds, chapter.stopPointIds)) {
+      changes.push({
+        type: "changed",
+        path: `${path}.stopPointIds`,
+        message: `Chapter "${chapter.id}" stop points changed from ${describeStopPointIds(
+          previous.stopPointIds
+        )} to ${describeStopPointIds(chapter.stopPointIds)}.`,
+      });
+    }
+  });
+  before.forEach((chapter, index) => {
+    if (after.some(({ id }) => id === chapter.id)) return;
+    changes.push({ type: "removed", path: `$.chapters[${index}]`, message: `Chapter "${chapter.id}" removed.` });
+  });
+};
+
+/** Indexes every area by id, with the stop point it belongs to and its JSON path. */
+const indexAreas = (data: TutorialJsonData) => {
+  const areas = new Map<string, { area: InteractionArea; stopPointId: string; path: string }[]>();
+  data.stopPoints.forEach((stopPoint, stopPointIndex) =>
+    stopPoint.areas.forEach((area, areaIndex) => {
+      const entry = { area, stopPointId: stopPoint.id, path: `$.stopPoints[${stopPointIndex}].areas[${areaIndex}]` };
+      areas.set(area.id, [...(areas.get(area.id) ?? []), entry]);
+    })
+  );
+  return areas;
+};
+
+/**
+ * Compares two versions of valid tutorial data, e.g. before and after a pull request, and describes
+ * what changed in terms of stop points, areas and chapters: "Area "save" of stop point "s1" moved from
+ * (0.1, 0.2) to (0.3, 0.2).", "Text of area "save" of stop point "s1" changed …". Stop points and areas are matched by id, so an area that keeps
+ * its id while changing stop points is reported as moved rather than removed and added. Paths refer
+ * to `after`, or to `before` for removals; parse both with `sortAreas: false` for paths into their files.
+ */
+export const diffTutorialData = (before: TutorialJsonData, after: TutorialJsonData): TutorialDataChange[] => {
+  const changes: TutorialDataChange[] = [];
+  const beforeAreas = indexAreas(before);
+  const afterAreas = indexAreas(after);
+
+  after.stopPoints.forEach((stopPoint, stopPointIndex) => {
+    const path = `$.stopPoints[${stopPointIndex}]`;
+    const previous = before.stopPoints.find(({ id }) => id === stopPoint.id);
+    if (previous) {
+      diffStopPoint(previous, stopPoint, path, changes);
+    } else {
+      changes.push({
+        type: "added",
+        path,
+        message: `Stop point "${stopPoint.id}" added at ${formatVideoTime(stopPoint.time)}.`,
+      });
+    }
+
+    stopPoint.areas.forEach((area, areaIndex) => {
+      const areaPath = `${path}.areas[${areaIndex}]`;
+      const candidates = beforeAreas.get(area.id) ?? [];
+      const match =
+        candidates.find((candidate) => candidate.stopPointId === stopPoint.id) ??
+        // Only follow an area into another stop point if it left that stop point.
+        candidates.find(
+          (candidate) => !(afterAreas.get(area.id) ?? []).some((entry) => entry.stopPointId === candidate.stopPointId)
+        );
+      if (!match) {
+        changes.push({
+          type: "added",
+          path: areaPath,
+          message: `Area "${area.id}" added to stop point "${stopPoint.id}".`,
+        });
+        return;
+      }
+      if (match.stopPointId !== stopPoint.id) {
+        changes.push({
+          type: "changed",
+          path: areaPath,
+          message: `Area "${area.id}" moved from stop point "${match.stopPointId}" to "${stopPoint.id}".`,
+        });
+      }
+      diffArea(match.area, area, stopPoint.id, areaPath, changes);
+    });
+  });
+
+  before.stopPoints.forEach((stopPoint, stopPointIndex) => {
+    const path = `$.stopPoints[${stopPointIndex}]`;
+    if (!after.stopPoints.some(({ id }) => id === stopPoint.id)) {
+      changes.push({ type: "removed", path, message: `Stop point "${stopPoint.id}" removed.` });
+    }
+    stopPoint.areas.forEach((area, areaIndex) => {
+      const remaining = afterAreas.get(area.id) ?? [];
+      const stillThere = remaining.some((entry) => entry.stopPointId === stopPoint.id);
+      // Areas that moved to another stop point were already reported above.
+      const movedAway = remaining.some(
+        (entry) => !(beforeAreas.get(area.id) ?? []).some((candidate) => candidate.stopPointId === entry.stopPointId)
+      );
+      if (stillThere || movedAway) return;
+      changes.push({
+        type: "removed",
+        path: `${path}.areas[${areaIndex}]`,
+        message: `Area "${area.id}" removed from stop point "${stopPoint.id}".`,
+      });
+    });
+  });
+
+  diffChapters(before.chapters ?? [], after.chapters ?? [], changes);
+  return changes;
+};
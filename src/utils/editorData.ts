@@ -0,0 +1,125 @@
+import { BoundingBox, InteractionArea, InteractionBase, Point, StopPoint, TutorialJsonData } from "../types";
+import { CURRENT_TUTORIAL_DATA_VERSION } from "./parseTutorialData";
+
+/** Areas the editor can draw on the video frame. */
+export type DrawableArea = Extract<InteractionArea, { type: "box" | "oval" | "polygon" }>;
+
+/** The shape and position of a drawable area. */
+export type AreaGeometry = { type: "box" | "oval"; box: BoundingBox } | { type: "polygon"; points: Point[] };
+
+export type BoxHandle = "nw" | "ne" | "sw" | "se";
+
+export const createEmptyTutorialData = (): TutorialJsonData => ({
+  version: CURRENT_TUTORIAL_DATA_VERSION,
+  stopPoints: [],
+});
+
+/** Returns `${prefix}-1`, `${prefix}-2`, … whichever is not taken yet. */
+export const createUniqueId = (prefix: string, takenIds: string[]): string => {
+  let index = 1;
+  while (takenIds.includes(`${prefix}-${index}`)) index += 1;
+  return `${prefix}-${index}`;
+};
+
+export const getAreaIds = (data: TutorialJsonData): string[] =>
+  data.stopPoints.flatMap((stopPoint) => stopPoint.areas.map((area) => area.id));
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const clampPoint = ({ x, y }: Point): Point => ({ x: clamp(x, 0, 1), y: clamp(y, 0, 1) });
+
+/** The box spanned by two opposite corners, in any order, kept inside the video. */
+export const boxFromCorners = (a: Point, b: Point): BoundingBox => {
+  const from = clampPoint(a);
+  const to = clampPoint(b);
+  return {
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    width: Math.abs(to.x - from.x),
+    height: Math.abs(to.y - from.y),
+  };
+};
+
+/** Moves the box by `delta`, stopping at the edges of the video. */
+export const moveBox = (box: BoundingBox, delta: Point): BoundingBox => ({
+  ...box,
+  x: clamp(box.x + delta.x, 0, 1 - box.width),
+  y: clamp(box.y + delta.y, 0, 1 - box.height),
+});
+
+/** Drags one corner of the box to `point` while the opposite corner stays put. */
+export const resizeBox = (box: BoundingBox, handle: BoxHandle, point: Point): BoundingBox => {
+  const opposite = {
+    x: handle.endsWith("w") ? box.x + box.width : box.x,
+    y: handle.startsWith("n") ? box.y + box.height : box.y,
+  };
+  return boxFromCorners(opposite, point);
+};
+
+/** Moves all points by `delta`, limited so that none leaves the video. */
+export const movePoints = (points: Point[], delta: Point): Point[] => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const dx = clamp(delta.x, -Math.min(...xs), 1 - Math.max(...xs));
+  const dy = clamp(delta.y, -Math.min(...ys), 1 - Math.max(...ys));
+  return points.map((point) => ({ x: point.x + dx, y: point.y + dy }));
+};
+
+const sortStopPoints = (stopPoints: StopPoint[]) => [...stopPoints].sort((a, b) => a.time - b.time);
+
+/** Adds a stop point, keeping stop points sorted by time. */
+export const insertStopPoint = (data: TutorialJsonData, stopPoint: StopPoint): TutorialJsonData => ({
+  ...data,
+  stopPoints: sortStopPoints([...data.stopPoints, stopPoint]),
+});
+
+export const updateStopPoint = (
+  data: TutorialJsonData,
+  stopPointId: string,
+  update: (stopPoint: StopPoint) => StopPoint
+): TutorialJsonData => ({
+  ...data,
+  stopPoints: sortStopPoints(
+    data.stopPoints.map((stopPoint) => (stopPoint.id === stopPointId ? update(stopPoint) : stopPoint))
+  ),
+});
+
+/** Removes a stop point, also from its chapter. Chapters left without stop points are removed as well. */
+export const removeStopPoint = (data: TutorialJsonData, stopPointId: string): TutorialJsonData => ({
+  ...data,
+  ...(data.chapters && {
+    chapters: data.chapters
+      .map((chapter) => ({ ...chapter, stopPointIds: chapter.stopPointIds.filter((id) => id !== stopPointId) }))
+      .filter((chapter) => chapter.stopPointIds.length > 0),
+  }),
+  stopPoints: data.stopPoints.filter((stopPoint) => stopPoint.id !== stopPointId),
+});
+
+/** Updates an area, keeping the areas of its stop point sorted by `order` as the player shows them. */
+export const updateArea = (
+  data: TutorialJsonData,
+  stopPointId: string,
+  areaId: string,
+  update: (area: InteractionArea) => InteractionArea
+): TutorialJsonData =>
+  updateStopPoint(data, stopPointId, (stopPoint) => ({
+    ...stopPoint,
+    areas: stopPoint.areas.map((area) => (area.id === areaId ? update(area) : area)).sort((a, b) => a.order - b.order),
+  }));
+
+/** Appends an area after the last one in `order`. */
+export const addArea = (
+  data: TutorialJsonData,
+  stopPointId: string,
+  area: Omit<InteractionBase, "order"> & AreaGeometry
+): TutorialJsonData =>
+  updateStopPoint(data, stopPointId, (stopPoint) => {
+    const order = Math.max(0, ...stopPoint.areas.map((existing) => existing.order)) + 1;
+    return { ...stopPoint, areas: [...stopPoint.areas, { ...area, order }] };
+  });
+
+export const removeArea = (data: TutorialJsonData, stopPointId: string, areaId: string): TutorialJsonData =>
+  updateStopPoint(data, stopPointId, (stopPoint) => ({
+    ...stopPoint,
+    areas: stopPoint.areas.filter((area) => area.id !== areaId),
+  }));
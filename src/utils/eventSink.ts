@@ -0,0 +1,67 @@
+import { TutorialEvent, TutorialEventType } from "../types";
+
+const FLUSHING_EVENT_TYPES: TutorialEventType[] = ["hidden", "abandon", "complete"];
+
+export interface BatchingEventSinkOptions {
+  /** Receives each batch of events, e.g. to post them to an analytics endpoint. */
+  send: (events: TutorialEvent[]) => void | Promise<void>;
+  /**
+   * Number of queued events that triggers an immediate flush.
+   * @default 20
+   */
+  maxBatchSize?: number;
+  /**
+   * Milliseconds to wait after the first queued event before flushing.
+   * @default 5000
+   */
+  flushInterval?: number;
+  /** Called when `send` fails. The batch is not retried. */
+  onError?: (error: unknown, events: TutorialEvent[]) => void;
+}
+
+export interface BatchingEventSink {
+  /** Pass this as the player's `onEvent` prop. */
+  onEvent: (event: TutorialEvent) => void;
+  /** Sends every queued event now. */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Queues events from `onEvent` and sends them in batches. `hidden`, `abandon` and `complete` events
+ * flush immediately, since the page may be closed right after them.
+ */
+export const createBatchingEventSink = ({
+  send,
+  maxBatchSize = 20,
+  flushInterval = 5000,
+  onError,
+}: BatchingEventSinkOptions): BatchingEventSink => {
+  let queue: TutorialEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    try {
+      await send(batch);
+    } catch (error) {
+      onError?.(error, batch);
+    }
+  };
+
+  const onEvent = (event: TutorialEvent) => {
+    queue.push(event);
+    if (queue.length >= maxBatchSize || FLUSHING_EVENT_TYPES.includes(event.type)) {
+      flush();
+      return;
+    }
+    if (!timer) timer = setTimeout(flush, flushInterval);
+  };
+
+  return { onEvent, flush };
+};
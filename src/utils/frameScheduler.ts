@@ -0,0 +1,60 @@
+// Media time one frame advances before the first frame was measured: a 60 Hz display at 1x speed.
+const DEFAULT_FRAME_DURATION = 1 / 60;
+
+/**
+ * Calls `onReach` on the last frame at or before `time`: as soon as the media is within `tolerance`
+ * seconds of `time`, or its next frame would pass it. Checks every video frame with
+ * `requestVideoFrameCallback` where the element supports it and every animation frame otherwise.
+ * Returns a function that cancels the check.
+ */
+export const scheduleAtFrame = (
+  element: HTMLMediaElement,
+  time: number,
+  tolerance: number,
+  onReach: () => void
+): (() => void) => {
+  const video = "requestVideoFrameCallback" in element ? (element as HTMLVideoElement) : null;
+  let handle = 0;
+  let isCancelled = false;
+  let frameDuration = DEFAULT_FRAME_DURATION;
+  let previous: { mediaTime: number; now: number } | null = null;
+
+  const check = (mediaTime: number, now: number) => {
+    if (element.paused || element.seeking) {
+      previous = null;
+      return false;
+    }
+    if (previous && mediaTime > previous.mediaTime) {
+      // The larger of the media time between two frames and the wall-clock time scaled by the playback
+      // rate, so the look-ahead grows with the speed.
+      frameDuration = Math.max(mediaTime - previous.mediaTime, ((now - previous.now) / 1000) * element.playbackRate);
+    }
+    previous = { mediaTime, now };
+    return mediaTime >= time - tolerance || mediaTime + frameDuration > time;
+  };
+
+  const request = () => {
+    if (video) {
+      handle = video.requestVideoFrameCallback((now, metadata) => tick(metadata.mediaTime, now));
+    } else {
+      handle = requestAnimationFrame((now) => tick(element.currentTime, now));
+    }
+  };
+
+  const tick = (mediaTime: number, now: number) => {
+    if (isCancelled) return;
+    if (check(mediaTime, now)) {
+      isCancelled = true;
+      onReach();
+      return;
+    }
+    request();
+  };
+
+  request();
+  return () => {
+    isCancelled = true;
+    if (video) video.cancelVideoFrameCallback(handle);
+    else cancelAnimationFrame(handle);
+  };
+};
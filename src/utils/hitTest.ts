@@ -0,0 +1,100 @@
+import { BoundingBox, InteractionArea, Point } from "../types";
+
+const isPointInBox = (box: BoundingBox, point: Point): boolean =>
+  point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height;
+
+const isPointInEllipse = (box: BoundingBox, point: Point): boolean => {
+  const radiusX = box.width / 2;
+  const radiusY = box.height / 2;
+  if (radiusX <= 0 || radiusY <= 0) return false;
+  const dx = (point.x - (box.x + radiusX)) / radiusX;
+  const dy = (point.y - (box.y + radiusY)) / radiusY;
+  return dx * dx + dy * dy <= 1;
+};
+
+/** Even-odd ray casting, so self-intersecting polygons behave like their SVG rendering. */
+const isPointInPolygon = (points: Point[], point: Point): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Returns true if `point`, in the same 0–1 video coordinates as the area, lies inside the area's shape. */
+export const isPointInArea = (area: InteractionArea, point: Point): boolean => {
+  switch (area.type) {
+    case "box":
+      return isPointInBox(area.box, point);
+    case "oval":
+      return isPointInEllipse(area.box, point);
+    case "polygon":
+      return area.points.length >= 3 && isPointInPolygon(area.points, point);
+    case "quiz":
+      return area.box ? isPointInBox(area.box, point) : false;
+    default:
+      return false;
+  }
+};
+
+const ELLIPSE_OUTLINE_SEGMENTS = 32;
+
+const getBoxOutline = (box: BoundingBox): Point[] => [
+  { x: box.x, y: box.y },
+  { x: box.x + box.width, y: box.y },
+  { x: box.x + box.width, y: box.y + box.height },
+  { x: box.x, y: box.y + box.height },
+];
+
+const getEllipseOutline = (box: BoundingBox): Point[] => {
+  const radiusX = box.width / 2;
+  const radiusY = box.height / 2;
+  return Array.from({ length: ELLIPSE_OUTLINE_SEGMENTS }, (_, i) => {
+    const angle = (2 * Math.PI * i) / ELLIPSE_OUTLINE_SEGMENTS;
+    return { x: box.x + radiusX + radiusX * Math.cos(angle), y: box.y + radiusY + radiusY * Math.sin(angle) };
+  });
+};
+
+/** The area's outline as a closed polygon, with ellipses approximated by a regular polygon. */
+const getAreaOutline = (area: InteractionArea): Point[] => {
+  switch (area.type) {
+    case "box":
+      return getBoxOutline(area.box);
+    case "oval":
+      return getEllipseOutline(area.box);
+    case "polygon":
+      return area.points;
+    case "quiz":
+      return area.box ? getBoxOutline(area.box) : [];
+    default:
+      return [];
+  }
+};
+
+const getDistanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+/**
+ * Like `isPointInArea`, but also accepts points up to `tolerance` outside the shape, so small
+ * highlights stay easy to hit with a finger. `tolerance` is given per axis in 0–1 video coordinates,
+ * which lets callers use the same pixel margin horizontally and vertically.
+ */
+export const isPointNearArea = (area: InteractionArea, point: Point, tolerance: Point): boolean => {
+  if (isPointInArea(area, point)) return true;
+  if (tolerance.x <= 0 || tolerance.y <= 0) return false;
+  // Scale both axes so the tolerance becomes a distance of 1.
+  const scale = (p: Point): Point => ({ x: p.x / tolerance.x, y: p.y / tolerance.y });
+  const scaledPoint = scale(point);
+  const outline = getAreaOutline(area).map(scale);
+  return outline.some((a, i) => getDistanceToSegment(scaledPoint, a, outline[(i + 1) % outline.length]) <= 1);
+};
@@ -0,0 +1,65 @@
+import { BoundingBox, InteractionArea, KeyframeEasing, Point } from "../types";
+
+const EASINGS: Record<KeyframeEasing, (progress: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+/**
+ * Finds the keyframes around `time` and the eased progress between them. Keyframes must be sorted
+ * by time; before the first and after the last one, that keyframe is returned on both sides.
+ */
+const findSegment = <K extends { time: number; easing?: KeyframeEasing }>(
+  keyframes: K[],
+  time: number
+): [from: K, to: K, progress: number] => {
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time);
+  if (nextIndex === 0) return [keyframes[0], keyframes[0], 0];
+  if (nextIndex === -1) return [keyframes[keyframes.length - 1], keyframes[keyframes.length - 1], 0];
+  const from = keyframes[nextIndex - 1];
+  const to = keyframes[nextIndex];
+  const progress = (time - from.time) / (to.time - from.time);
+  return [from, to, EASINGS[from.easing ?? "linear"](progress)];
+};
+
+const interpolateBox = (from: BoundingBox, to: BoundingBox, progress: number): BoundingBox => ({
+  x: lerp(from.x, to.x, progress),
+  y: lerp(from.y, to.y, progress),
+  width: lerp(from.width, to.width, progress),
+  height: lerp(from.height, to.height, progress),
+});
+
+const interpolatePoints = (from: Point[], to: Point[], progress: number): Point[] =>
+  from.map((point, index) => ({
+    x: lerp(point.x, to[index]?.x ?? point.x, progress),
+    y: lerp(point.y, to[index]?.y ?? point.y, progress),
+  }));
+
+export const hasKeyframes = (area: InteractionArea): boolean =>
+  (area.type === "box" || area.type === "oval" || area.type === "polygon") && (area.keyframes?.length ?? 0) > 0;
+
+/**
+ * Returns the area with its `box` or `points` moved to where its keyframes put them at `time`,
+ * or the area itself if it has no keyframes. The id and everything else are kept.
+ */
+export const resolveAreaAt = (area: InteractionArea, time: number): InteractionArea => {
+  switch (area.type) {
+    case "box":
+    case "oval": {
+      if (!area.keyframes?.length) return area;
+      const [from, to, progress] = findSegment(area.keyframes, time);
+      return { ...area, box: interpolateBox(from.box, to.box, progress) };
+    }
+    case "polygon": {
+      if (!area.keyframes?.length) return area;
+      const [from, to, progress] = findSegment(area.keyframes, time);
+      return { ...area, points: interpolatePoints(from.points, to.points, progress) };
+    }
+    default:
+      return area;
+  }
+};
@@ -0,0 +1,121 @@
+import { BoundingBox, InteractionArea, Point, TutorialDataError, TutorialJsonData } from "../types";
+import { forEachAreaText } from "./localization";
+import { DEFAULT_OVERLAY_AREA_DURATION, getAutoAdvanceAfter, isOverlayStopPoint } from "./stopPoints";
+import { formatVideoTime } from "./timeRanges";
+
+export interface LintTutorialDataOptions {
+  /** Video duration in seconds. If given, stop points, branches and keyframes after it are reported. */
+  duration?: number;
+}
+
+const isInUnitRange = (value: number) => value >= 0 && value <= 1;
+
+const isBoxInside = ({ x, y, width, height }: BoundingBox) =>
+  isInUnitRange(x) && isInUnitRange(y) && width > 0 && height > 0 && x + width <= 1 && y + height <= 1;
+
+const arePointsInside = (points: Point[]) => points.every((point) => isInUnitRange(point.x) && isInUnitRange(point.y));
+
+const OUTSIDE_MESSAGE = "Lies outside the video; coordinates are fractions of its size from 0 to 1.";
+
+/** Reports geometry of the area and its keyframes that does not fit the 0–1 coordinate space. */
+const lintGeometry = (area: InteractionArea, path: string, problems: TutorialDataError[]) => {
+  switch (area.type) {
+    case "box":
+    case "oval":
+      if (!isBoxInside(area.box)) problems.push({ path: `${path}.box`, message: OUTSIDE_MESSAGE });
+      area.keyframes?.forEach((keyframe, index) => {
+        if (!isBoxInside(keyframe.box)) {
+          problems.push({ path: `${path}.keyframes[${index}].box`, message: OUTSIDE_MESSAGE });
+        }
+      });
+      break;
+    case "polygon":
+      if (!arePointsInside(area.points)) problems.push({ path: `${path}.points`, message: OUTSIDE_MESSAGE });
+      area.keyframes?.forEach((keyframe, index) => {
+        if (!arePointsInside(keyframe.points)) {
+          problems.push({ path: `${path}.keyframes[${index}].points`, message: OUTSIDE_MESSAGE });
+        }
+      });
+      break;
+    case "quiz":
+      if (area.box && !isBoxInside(area.box)) problems.push({ path: `${path}.box`, message: OUTSIDE_MESSAGE });
+      break;
+  }
+};
+
+/**
+ * Finds problems in valid tutorial data that `parseTutorialData` lets through because playback still
+ * works: areas outside the video, empty texts, overlay stop points still showing when the next stop
+ * point starts, area ids used in more than one stop point and, given the duration, times after the end.
+ * Paths refer to `data`; parse it with `sortAreas: false` for paths into the file it was read from.
+ */
+export const lintTutorialData = (
+  data: TutorialJsonData,
+  { duration }: LintTutorialDataOptions = {}
+): TutorialDataError[] => {
+  const problems: TutorialDataError[] = [];
+  const isAfterEnd = (time: number) => duration !== undefined && time > duration;
+  const afterEndMessage = (time: number) =>
+    `${formatVideoTime(time)} is after the end of the video at ${formatVideoTime(duration ?? 0)}.`;
+  // Area ids only have to be unique within a stop point, but analytics events and highlight masks use them alone.
+  const areaStopPointIds = new Map<string, string>();
+
+  data.stopPoints.forEach((stopPoint, stopPointIndex) => {
+    const path = `$.stopPoints[${stopPointIndex}]`;
+    if (isAfterEnd(stopPoint.time)) problems.push({ path: `${path}.time`, message: afterEndMessage(stopPoint.time) });
+
+    const next = data.stopPoints[stopPointIndex + 1];
+    if (isOverlayStopPoint(stopPoint) && next) {
+      const end = stopPoint.areas.reduce(
+        (time, area) => time + (getAutoAdvanceAfter(stopPoint, area) ?? DEFAULT_OVERLAY_AREA_DURATION),
+        stopPoint.time
+      );
+      if (end > next.time) {
+        problems.push({
+          path: `${path}.time`,
+          message: `Its areas are shown until ${formatVideoTime(end)}, after stop point "${
+            next.id
+          }" starts at ${formatVideoTime(next.time)}.`,
+        });
+      }
+    }
+
+    stopPoint.areas.forEach((area, areaIndex) => {
+      const areaPath = `${path}.areas[${areaIndex}]`;
+      const otherStopPointId = areaStopPointIds.get(area.id);
+      if (otherStopPointId !== undefined) {
+        problems.push({
+          path: `${areaPath}.id`,
+          message: `Area id "${area.id}" is also used in stop point "${otherStopPointId}".`,
+        });
+      } else {
+        areaStopPointIds.set(area.id, stopPoint.id);
+      }
+
+      lintGeometry(area, areaPath, problems);
+
+      forEachAreaText(area, areaPath, (text, textPath) => {
+        if (typeof text === "string") {
+          if (text.trim() === "") problems.push({ path: textPath, message: "Empty text." });
+          return;
+        }
+        Object.entries(text).forEach(([locale, translation]) => {
+          if (translation.trim() === "") problems.push({ path: `${textPath}.${locale}`, message: "Empty text." });
+        });
+      });
+
+      if (area.goTo && "time" in area.goTo && isAfterEnd(area.goTo.time)) {
+        problems.push({ path: `${areaPath}.goTo.time`, message: afterEndMessage(area.goTo.time) });
+      }
+      if (area.type !== "quiz") {
+        area.keyframes?.forEach((keyframe, index) => {
+          if (isAfterEnd(keyframe.time)) {
+            problems.push({ path: `${areaPath}.keyframes[${index}].time`, message: afterEndMessage(keyframe.time) });
+          }
+        });
+      }
+    });
+  });
+
+  return problems;
+};
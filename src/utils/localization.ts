@@ -0,0 +1,59 @@
+import { Chapter, InteractionArea, LocalizedText, StopPoint } from "../types";
+
+const RTL_LANGUAGES = ["ar", "dv", "fa", "he", "ku", "ps", "sd", "ug", "ur", "yi"];
+
+const getLanguage = (locale: string) => locale.split("-")[0].toLowerCase();
+
+/**
+ * Returns the locales to try in order: the locale itself, its language without region
+ * (`pt-BR` → `pt`), then each fallback locale the same way.
+ */
+export const getLocaleChain = (locale: string, fallbackLocales: string[] = []): string[] => {
+  const chain: string[] = [];
+  [locale, ...fallbackLocales].forEach((candidate) => {
+    [candidate, getLanguage(candidate)].forEach((entry) => {
+      if (!chain.includes(entry)) chain.push(entry);
+    });
+  });
+  return chain;
+};
+
+/** Resolves a text to the first translation found along `localeChain`, or to any translation if none matches. */
+export const resolveLocalizedText = (text: LocalizedText | undefined, localeChain: string[]): string => {
+  if (text === undefined) return "";
+  if (typeof text === "string") return text;
+  for (const locale of localeChain) {
+    if (text[locale] !== undefined) return text[locale];
+  }
+  return Object.values(text)[0] ?? "";
+};
+
+export const isRtlLocale = (locale: string): boolean => RTL_LANGUAGES.includes(getLanguage(locale));
+
+/** Calls `visit` with every translatable text of an area and the JSON path it lives at. */
+export const forEachAreaText = (
+  area: InteractionArea,
+  path: string,
+  visit: (text: LocalizedText, path: string) => void
+) => {
+  visit(area.text, `${path}.text`);
+  if (area.title !== undefined) visit(area.title, `${path}.title`);
+  if (area.type !== "quiz") return;
+  area.options.forEach((option, optionIndex) => visit(option.text, `${path}.options[${optionIndex}].text`));
+  if (area.feedback?.correct !== undefined) visit(area.feedback.correct, `${path}.feedback.correct`);
+  if (area.feedback?.incorrect !== undefined) visit(area.feedback.incorrect, `${path}.feedback.incorrect`);
+};
+
+/** Returns every locale that appears in a translation map of the stop points or chapters. */
+export const collectLocales = (stopPoints: StopPoint[], chapters: Chapter[] = []): string[] => {
+  const locales = new Set<string>();
+  const addLocales = (text: LocalizedText | undefined) => {
+    if (text !== undefined && typeof text !== "string") Object.keys(text).forEach((locale) => locales.add(locale));
+  };
+  stopPoints.forEach((stopPoint) => stopPoint.areas.forEach((area) => forEachAreaText(area, "", addLocales)));
+  chapters.forEach((chapter) => {
+    addLocales(chapter.title);
+    addLocales(chapter.description);
+  });
+  return Array.from(locales);
+};
@@ -0,0 +1,107 @@
+import { MarkdownBlock, MarkdownInline } from "../types";
+
+const SAFE_SCHEMES = ["http", "https", "mailto"];
+const SAFE_DATA_IMAGE = /^data:image\/(png|gif|jpe?g|webp);base64,/i;
+
+/**
+ * Returns the URL if it is relative or uses a safe scheme, otherwise null. Images may also be
+ * base64 data URLs. Control characters are stripped first, as browsers ignore them in schemes.
+ */
+export const sanitizeUrl = (url: string, kind: "link" | "image" = "link"): string | null => {
+  const cleaned = url.replace(/[\u0000-\u001F\u007F]/g, "").trim();
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(cleaned)?.[1].toLowerCase();
+  if (scheme === undefined || SAFE_SCHEMES.includes(scheme)) return cleaned;
+  if (kind === "image" && SAFE_DATA_IMAGE.test(cleaned)) return cleaned;
+  return null;
+};
+
+// Code spans, images, links, bold and italics, tried in this order at each position. Underscores are
+// left alone so identifiers like `snake_case` survive without code spans.
+const INLINE_PATTERN = /`([^`]+)`|!\[([^\]]*)\]\(([^)\s]+)\)|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|\*(.+?)\*/;
+
+const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE_PATTERN.exec(rest))) {
+    if (match.index > 0) nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    const [source, code, alt, src, label, href, strong, emphasis] = match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (src !== undefined) {
+      const safeSrc = sanitizeUrl(src, "image");
+      // Unsafe images are dropped; their alt text keeps the sentence readable.
+      nodes.push(safeSrc ? { type: "image", src: safeSrc, alt } : { type: "text", text: alt });
+    } else if (href !== undefined) {
+      const safeHref = sanitizeUrl(href);
+      const children = parseInline(label);
+      nodes.push(...(safeHref ? [{ type: "link" as const, href: safeHref, children }] : children));
+    } else if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseInline(strong) });
+    } else {
+      nodes.push({ type: "emphasis", children: parseInline(emphasis) });
+    }
+    rest = rest.slice(match.index + source.length);
+  }
+  if (rest) nodes.push({ type: "text", text: rest });
+  return nodes;
+};
+
+const LIST_ITEM_PATTERN = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+/**
+ * Parses the Markdown subset allowed in bubble texts: paragraphs, bullet and numbered lists,
+ * `**bold**`, `*italic*`, `` `code` ``, `[links](https://…)` and `![images](https://…)`.
+ * Everything else, including HTML, is kept as plain text.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+    paragraph = [];
+  };
+
+  markdown.split(/\r?\n/).forEach((line) => {
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(parseInline(item[3]));
+      } else {
+        blocks.push({ type: "list", ordered, items: [parseInline(item[3])] });
+      }
+    } else if (line.trim() === "") {
+      flushParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  });
+  flushParagraph();
+  return blocks;
+};
+
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "image":
+          return node.alt;
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join("");
+
+/** Strips the formatting, e.g. for accessible names and timeline previews. */
+export const markdownToPlainText = (markdown: string): string =>
+  parseMarkdown(markdown)
+    .map((block) =>
+      block.type === "paragraph" ? inlineToPlainText(block.children) : block.items.map(inlineToPlainText).join(", ")
+    )
+    .join(" ");
@@ -0,0 +1,52 @@
+import { TutorialMediaAdapter, TutorialMediaEvent } from "../types";
+import { scheduleAtFrame } from "./frameScheduler";
+
+/**
+ * Adapts an `HTMLMediaElement`, or any element implementing its API such as the custom elements
+ * `react-player` renders for YouTube or Vimeo, to the tutorial engine.
+ */
+export const createHtmlMediaAdapter = (element: HTMLMediaElement): TutorialMediaAdapter => {
+  const listeners = new Set<(event: TutorialMediaEvent) => void>();
+
+  return {
+    play: () => {
+      // Browsers reject play() without a user gesture; report it so the engine does not assume playback.
+      element.play()?.catch(() => {
+        if (element.paused) listeners.forEach((listener) => listener({ type: "pause" }));
+      });
+    },
+    pause: () => element.pause(),
+    seek: (time) => {
+      element.currentTime = time;
+    },
+    scheduleAt: (time, tolerance, onReach) => scheduleAtFrame(element, time, tolerance, onReach),
+    subscribe: (listener) => {
+      const handlers: [keyof HTMLMediaElementEventMap, () => void][] = [
+        ["timeupdate", () => listener({ type: "timeUpdate", time: element.currentTime })],
+        ["seeking", () => listener({ type: "seeking" })],
+        ["seeked", () => listener({ type: "seeked", time: element.currentTime })],
+        [
+          "durationchange",
+          () => {
+            if (Number.isFinite(element.duration)) listener({ type: "durationChange", duration: element.duration });
+          },
+        ],
+        ["play", () => listener({ type: "play" })],
+        // Media elements also pause when they reach the end, which is reported as `ended` instead.
+        [
+          "pause",
+          () => {
+            if (!element.ended) listener({ type: "pause" });
+          },
+        ],
+        ["ended", () => listener({ type: "ended" })],
+      ];
+      listeners.add(listener);
+      handlers.forEach(([type, handler]) => element.addEventListener(type, handler));
+      return () => {
+        listeners.delete(listener);
+        handlers.forEach(([type, handler]) => element.removeEventListener(type, handler));
+      };
+    },
+  };
+};
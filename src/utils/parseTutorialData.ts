@@ -0,0 +1,642 @@
+import {
+  AreaGoTo,
+  BoundingBox,
+  Chapter,
+  HighlightStyle,
+  InteractionArea,
+  KeyframeEasing,
+  LocalizedText,
+  ParseTutorialDataResult,
+  Point,
+  QuizOption,
+  StopPoint,
+  StopPointLayout,
+  StopPointMode,
+  TextFormat,
+  TutorialDataError,
+  TutorialJsonData,
+} from "../types";
+import { analyzeTutorialFlow } from "./tutorialFlow";
+import { collectLocales, forEachAreaText } from "./localization";
+
+export const CURRENT_TUTORIAL_DATA_VERSION = "1.1";
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isLocalizedText = (value: unknown): value is LocalizedText =>
+  typeof value === "string" ||
+  (isRecord(value) && Object.keys(value).length > 0 && Object.values(value).every((text) => typeof text === "string"));
+
+export interface ParseTutorialDataOptions {
+  /** Locales every translated text must provide. Defaults to every locale used anywhere in the data. */
+  locales?: string[];
+  /**
+   * Sorts the areas of each stop point by `order`, as the player expects. Set it to false to keep the
+   * order of the file, e.g. so `lintTutorialData` and `diffTutorialData` report paths into it.
+   * @default true
+   */
+  sortAreas?: boolean;
+}
+
+// =================================================================
+// MIGRATIONS
+// =================================================================
+
+/**
+ * Each migration upgrades data from the keyed version to the next one. "1.1" is the first version
+ * of the format, so there is nothing to migrate yet; a change to the shape adds a step here.
+ */
+const MIGRATIONS: Record<string, { to: string; migrate: (data: UnknownRecord) => UnknownRecord }> = {};
+
+const migrate = (data: UnknownRecord, errors: TutorialDataError[]): UnknownRecord | null => {
+  let current = data;
+  let version = current.version;
+  while (version !== CURRENT_TUTORIAL_DATA_VERSION) {
+    const step = typeof version === "string" ? MIGRATIONS[version] : undefined;
+    if (!step) {
+      const message =
+        version === undefined
+          ? `Expected version "${CURRENT_TUTORIAL_DATA_VERSION}".`
+          : `Unsupported version ${JSON.stringify(version)}.`;
+      errors.push({ path: "$.version", message });
+      return null;
+    }
+    current = step.migrate(current);
+    version = step.to;
+  }
+  return current;
+};
+
+// =================================================================
+// VALIDATION
+// =================================================================
+
+const parseBox = (value: unknown, path: string, errors: TutorialDataError[]): BoundingBox | null => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "Expected a box object with x, y, width and height." });
+    return null;
+  }
+  let valid = true;
+  for (const key of ["x", "y", "width", "height"] as const) {
+    if (!isFiniteNumber(value[key])) {
+      errors.push({ path: `${path}.${key}`, message: "Expected a finite number." });
+      valid = false;
+    }
+  }
+  if (!valid) return null;
+  return { x: value.x as number, y: value.y as number, width: value.width as number, height: value.height as number };
+};
+
+const parsePoints = (value: unknown, path: string, errors: TutorialDataError[]): Point[] | null => {
+  if (!Array.isArray(value) || value.length < 3) {
+    errors.push({ path, message: "Expected an array of at least 3 points." });
+    return null;
+  }
+  let valid = true;
+  const points = value.map((point, index) => {
+    if (!isRecord(point) || !isFiniteNumber(point.x) || !isFiniteNumber(point.y)) {
+      errors.push({ path: `${path}[${index}]`, message: "Expected a point with numeric x and y." });
+      valid = false;
+      return { x: 0, y: 0 };
+    }
+    return { x: point.x, y: point.y };
+  });
+  return valid ? points : null;
+};
+
+const KEYFRAME_EASINGS: KeyframeEasing[] = ["linear", "easeIn", "easeOut", "easeInOut"];
+
+/** Validates the time and easing of each keyframe; `parseGeometry` validates the rest. */
+const parseKeyframes = <G extends object>(
+  value: unknown,
+  path: string,
+  errors: TutorialDataError[],
+  parseGeometry: (keyframe: UnknownRecord, keyframePath: string) => G | null
+): ({ time: number; easing?: KeyframeEasing } & G)[] | null => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ path, message: "Expected a non-empty array of keyframes." });
+    return null;
+  }
+  const errorCount = errors.length;
+  let previousTime = -Infinity;
+  const keyframes = value.map((keyframe, index) => {
+    const keyframePath = `${path}[${index}]`;
+    if (!isRecord(keyframe)) {
+      errors.push({ path: keyframePath, message: "Expected a keyframe object." });
+      return null;
+    }
+    if (!isFiniteNumber(keyframe.time) || keyframe.time < 0) {
+      errors.push({ path: `${keyframePath}.time`, message: "Expected a non-negative number of seconds." });
+    } else if (keyframe.time <= previousTime) {
+      errors.push({ path: `${keyframePath}.time`, message: "Expected keyframes in increasing time order." });
+    } else {
+      previousTime = keyframe.time;
+    }
+    if (keyframe.easing !== undefined && !KEYFRAME_EASINGS.includes(keyframe.easing as KeyframeEasing)) {
+      errors.push({ path: `${keyframePath}.easing`, message: `Expected one of ${KEYFRAME_EASINGS.join(", ")}.` });
+    }
+    const geometry = parseGeometry(keyframe, keyframePath);
+    if (!geometry) return null;
+    return {
+      time: keyframe.time as number,
+      ...(keyframe.easing !== undefined && { easing: keyframe.easing as KeyframeEasing }),
+      ...geometry,
+    };
+  });
+  return errors.length > errorCount ? null : (keyframes as ({ time: number; easing?: KeyframeEasing } & G)[]);
+};
+
+const parseGoTo = (value: unknown, path: string, errors: TutorialDataError[]): AreaGoTo | null => {
+  if (isRecord(value) && typeof value.stopPointId === "string" && value.time === undefined) {
+    return { stopPointId: value.stopPointId };
+  }
+  if (isRecord(value) && isFiniteNumber(value.time) && value.time >= 0 && value.stopPointId === undefined) {
+    return { time: value.time };
+  }
+  errors.push({ path, message: "Expected either { stopPointId } or { time } with a non-negative number of seconds." });
+  return null;
+};
+
+const BORDER_STYLES: NonNullable<HighlightStyle["borderStyle"]>[] = ["dashed", "solid", "dotted", "none"];
+
+const parseHighlightStyle = (value: unknown, path: string, errors: TutorialDataError[]): HighlightStyle | null => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "Expected an object with maskOpacity, borderStyle or borderColor." });
+    return null;
+  }
+  const errorCount = errors.length;
+  const { maskOpacity, borderStyle, borderColor } = value;
+  if (maskOpacity !== undefined && (!isFiniteNumber(maskOpacity) || maskOpacity < 0 || maskOpacity > 1)) {
+    errors.push({ path: `${path}.maskOpacity`, message: "Expected a number from 0 to 1." });
+  }
+  if (borderStyle !== undefined && !BORDER_STYLES.includes(borderStyle as NonNullable<HighlightStyle["borderStyle"]>)) {
+    errors.push({ path: `${path}.borderStyle`, message: `Expected one of ${BORDER_STYLES.join(", ")}.` });
+  }
+  if (borderColor !== undefined && (typeof borderColor !== "string" || borderColor === "")) {
+    errors.push({ path: `${path}.borderColor`, message: "Expected a CSS color." });
+  }
+  if (errors.length > errorCount) return null;
+  return {
+    ...(maskOpacity !== undefined && { maskOpacity: maskOpacity as number }),
+    ...(borderStyle !== undefined && { borderStyle: borderStyle as HighlightStyle["borderStyle"] }),
+    ...(borderColor !== undefined && { borderColor: borderColor as string }),
+  };
+};
+
+const parseQuizOptions = (value: unknown, path: string, errors: TutorialDataError[]): QuizOption[] | null => {
+  if (!Array.isArray(value) || value.length < 2) {
+    errors.push({ path, message: "Expected an array of at least 2 options." });
+    return null;
+  }
+  const errorCount = errors.length;
+  const seenIds = new Set<string>();
+  const options = value.map((option, index) => {
+    if (!isRecord(option) || typeof option.id !== "string" || option.id === "" || !isLocalizedText(option.text)) {
+      errors.push({ path: `${path}[${index}]`, message: "Expected an option with a non-empty string id and a text." });
+      return { id: "", text: "" };
+    }
+    if (seenIds.has(option.id)) {
+      errors.push({ path: `${path}[${index}].id`, message: `Duplicate option id "${option.id}".` });
+    }
+    seenIds.add(option.id);
+    return { id: option.id, text: option.text };
+  });
+  return errors.length > errorCount ? null : options;
+};
+
+const parseArea = (value: unknown, path: string, errors: TutorialDataError[]): InteractionArea | null => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "Expected an area object." });
+    return null;
+  }
+  const errorCount = errors.length;
+  if (typeof value.id !== "string" || value.id === "") {
+    errors.push({ path: `${path}.id`, message: "Expected a non-empty string." });
+  }
+  if (!isLocalizedText(value.text)) {
+    errors.push({ path: `${path}.text`, message: "Expected a string or an object of translations keyed by locale." });
+  }
+  if (value.title !== undefined && !isLocalizedText(value.title)) {
+    errors.push({ path: `${path}.title`, message: "Expected a string or an object of translations keyed by locale." });
+  }
+  if (value.format !== undefined && value.format !== "plain" && value.format !== "markdown") {
+    errors.push({ path: `${path}.format`, message: 'Expected "plain" or "markdown".' });
+  }
+  if (value.autoAdvanceAfter !== undefined && !isPositiveNumber(value.autoAdvanceAfter)) {
+    errors.push({ path: `${path}.autoAdvanceAfter`, message: "Expected a positive number of seconds." });
+  }
+  if (!isFiniteNumber(value.order)) {
+    errors.push({ path: `${path}.order`, message: "Expected a finite number." });
+  }
+  // Quizzes advance through their answers, so the next button is optional for them.
+  const hasNextButton = value.type === "quiz" && value.hasNextButton === undefined ? false : value.hasNextButton;
+  if (typeof hasNextButton !== "boolean") {
+    errors.push({ path: `${path}.hasNextButton`, message: "Expected a boolean." });
+  }
+
+  const goTo = value.goTo === undefined ? undefined : parseGoTo(value.goTo, `${path}.goTo`, errors);
+  const highlightStyle =
+    value.highlightStyle === undefined
+      ? undefined
+      : parseHighlightStyle(value.highlightStyle, `${path}.highlightStyle`, errors);
+
+  const base = {
+    id: value.id as string,
+    text: value.text as LocalizedText,
+    ...(value.format !== undefined && { format: value.format as TextFormat }),
+    ...(value.title !== undefined && { title: value.title as LocalizedText }),
+    ...(value.autoAdvanceAfter !== undefined && { autoAdvanceAfter: value.autoAdvanceAfter as number }),
+    order: value.order as number,
+    hasNextButton: hasNextButton as boolean,
+    ...(goTo && { goTo }),
+    ...(highlightStyle && { highlightStyle }),
+  };
+
+  switch (value.type) {
+    case "box":
+    case "oval": {
+      const box = parseBox(value.box, `${path}.box`, errors);
+      const keyframes =
+        value.keyframes === undefined
+          ? undefined
+          : parseKeyframes(value.keyframes, `${path}.keyframes`, errors, (keyframe, keyframePath) => {
+              const keyframeBox = parseBox(keyframe.box, `${keyframePath}.box`, errors);
+              return keyframeBox && { box: keyframeBox };
+            });
+      if (!box || errors.length > errorCount) return null;
+      return { ...base, type: value.type, box, ...(keyframes && { keyframes }) };
+    }
+    case "polygon": {
+      const points = parsePoints(value.points, `${path}.points`, errors);
+      const keyframes =
+        value.keyframes === undefined
+          ? undefined
+          : parseKeyframes(value.keyframes, `${path}.keyframes`, errors, (keyframe, keyframePath) => {
+              const keyframePoints = parsePoints(keyframe.points, `${keyframePath}.points`, errors);
+              // Vertices are interpolated pairwise, so every keyframe needs the same number of them.
+              if (keyframePoints && points && keyframePoints.length !== points.length) {
+                errors.push({
+                  path: `${keyframePath}.points`,
+                  message: `Expected ${points.length} points, as many as the area's points.`,
+                });
+                return null;
+              }
+              return keyframePoints && { points: keyframePoints };
+            });
+      if (!points || errors.length > errorCount) return null;
+      return { ...base, type: "polygon", points, ...(keyframes && { keyframes }) };
+    }
+    case "quiz": {
+      const options = parseQuizOptions(value.options, `${path}.options`, errors);
+      if (options && !options.some((option) => option.id === value.correctOptionId)) {
+        errors.push({ path: `${path}.correctOptionId`, message: "Expected the id of one of the options." });
+      }
+      if (
+        value.maxAttempts !== undefined &&
+        (!Number.isInteger(value.maxAttempts) || (value.maxAttempts as number) < 1)
+      ) {
+        errors.push({ path: `${path}.maxAttempts`, message: "Expected a positive integer." });
+      }
+      const feedback = value.feedback;
+      if (
+        feedback !== undefined &&
+        (!isRecord(feedback) ||
+          (feedback.correct !== undefined && !isLocalizedText(feedback.correct)) ||
+          (feedback.incorrect !== undefined && !isLocalizedText(feedback.incorrect)))
+      ) {
+        errors.push({
+          path: `${path}.feedback`,
+          message: "Expected an object with optional correct and incorrect texts.",
+        });
+      }
+      const box = value.box === undefined ? undefined : parseBox(value.box, `${path}.box`, errors);
+      if (!options || box === null || errors.length > errorCount) return null;
+      return {
+        ...base,
+        type: "quiz",
+        options,
+        correctOptionId: value.correctOptionId as string,
+        ...(isRecord(feedback) && {
+          feedback: {
+            correct: feedback.correct as LocalizedText | undefined,
+            incorrect: feedback.incorrect as LocalizedText | undefined,
+          },
+        }),
+        ...(value.maxAttempts !== undefined && { maxAttempts: value.maxAttempts as number }),
+        ...(box && { box }),
+      };
+    }
+    default:
+      errors.push({ path: `${path}.type`, message: 'Expected one of "box", "oval", "polygon" or "quiz".' });
+      return null;
+  }
+};
+
+interface StopPointReference {
+  path: string;
+  stopPointId: string;
+}
+
+interface TextReference {
+  path: string;
+  text: LocalizedText;
+}
+
+/** Cross-references collected while parsing and checked once all stop points are known. */
+interface ParseContext {
+  errors: TutorialDataError[];
+  stopPointReferences: StopPointReference[];
+  texts: TextReference[];
+}
+
+const parseStopPoint = (value: unknown, path: string, context: ParseContext, sortAreas: boolean): StopPoint | null => {
+  const { errors } = context;
+  if (!isRecord(value)) {
+    errors.push({ path, message: "Expected a stop point object." });
+    return null;
+  }
+  const errorCount = errors.length;
+  if (typeof value.id !== "string" || value.id === "") {
+    errors.push({ path: `${path}.id`, message: "Expected a non-empty string." });
+  }
+  if (!isFiniteNumber(value.time) || value.time < 0) {
+    errors.push({ path: `${path}.time`, message: "Expected a non-negative number of seconds." });
+  }
+  if (value.mode !== undefined && value.mode !== "pause" && value.mode !== "overlay") {
+    errors.push({ path: `${path}.mode`, message: 'Expected "pause" or "overlay".' });
+  }
+  if (value.autoAdvanceAfter !== undefined && !isPositiveNumber(value.autoAdvanceAfter)) {
+    errors.push({ path: `${path}.autoAdvanceAfter`, message: "Expected a positive number of seconds." });
+  }
+  const isExplore = value.layout === "explore";
+  if (value.layout !== undefined && value.layout !== "sequence" && !isExplore) {
+    errors.push({ path: `${path}.layout`, message: 'Expected "sequence" or "explore".' });
+  }
+  if (isExplore && value.mode === "overlay") {
+    errors.push({ path: `${path}.layout`, message: 'Overlay stop points cannot use the "explore" layout.' });
+  }
+  if (value.requiredAreaIds !== undefined && !isExplore) {
+    errors.push({ path: `${path}.requiredAreaIds`, message: 'Only allowed with layout "explore".' });
+  } else if (
+    value.requiredAreaIds !== undefined &&
+    (!Array.isArray(value.requiredAreaIds) ||
+      value.requiredAreaIds.length === 0 ||
+      !value.requiredAreaIds.every((id) => typeof id === "string"))
+  ) {
+    errors.push({ path: `${path}.requiredAreaIds`, message: "Expected a non-empty array of area ids." });
+  }
+  if (value.legend !== undefined && (!isExplore || typeof value.legend !== "boolean")) {
+    errors.push({ path: `${path}.legend`, message: 'Expected a boolean, only allowed with layout "explore".' });
+  }
+  if (!Array.isArray(value.areas) || value.areas.length === 0) {
+    errors.push({ path: `${path}.areas`, message: "Expected a non-empty array of areas." });
+    return null;
+  }
+
+  const areas: InteractionArea[] = [];
+  const seenAreaIds = new Set<string>();
+  const seenOrders = new Set<number>();
+  value.areas.forEach((rawArea, index) => {
+    const areaPath = `${path}.areas[${index}]`;
+    const area = parseArea(rawArea, areaPath, errors);
+    if (!area) return;
+    if (seenAreaIds.has(area.id)) {
+      errors.push({ path: `${areaPath}.id`, message: `Duplicate area id "${area.id}".` });
+    }
+    // Overlay stop points never wait for the user, so nothing in them can be answered or chosen.
+    if (value.mode === "overlay" && (area.type === "quiz" || area.goTo)) {
+      errors.push({ path: areaPath, message: "Overlay stop points cannot contain quizzes or branches." });
+    }
+    // Explore stop points continue once their areas are visited, which neither a quiz nor a branch fits.
+    if (isExplore && (area.type === "quiz" || area.goTo)) {
+      errors.push({ path: areaPath, message: "Explore stop points cannot contain quizzes or branches." });
+    }
+    if (seenOrders.has(area.order)) {
+      errors.push({ path: `${areaPath}.order`, message: `Duplicate order ${area.order} within stop point.` });
+    }
+    if (area.goTo && "stopPointId" in area.goTo) {
+      context.stopPointReferences.push({ path: `${areaPath}.goTo.stopPointId`, stopPointId: area.goTo.stopPointId });
+    }
+    forEachAreaText(area, areaPath, (text, textPath) => context.texts.push({ path: textPath, text }));
+    seenAreaIds.add(area.id);
+    seenOrders.add(area.order);
+    areas.push(area);
+  });
+
+  if (Array.isArray(value.requiredAreaIds)) {
+    value.requiredAreaIds.forEach((id, index) => {
+      if (typeof id === "string" && !seenAreaIds.has(id)) {
+        errors.push({
+          path: `${path}.requiredAreaIds[${index}]`,
+          message: `Unknown area "${id}" in this stop point.`,
+        });
+      }
+    });
+  }
+
+  if (errors.length > errorCount) return null;
+  return {
+    id: value.id as string,
+    time: value.time as number,
+    ...(value.mode !== undefined && { mode: value.mode as StopPointMode }),
+    ...(value.layout !== undefined && { layout: value.layout as StopPointLayout }),
+    ...(value.requiredAreaIds !== undefined && { requiredAreaIds: value.requiredAreaIds as string[] }),
+    ...(value.legend !== undefined && { legend: value.legend as boolean }),
+    ...(value.autoAdvanceAfter !== undefined && { autoAdvanceAfter: value.autoAdvanceAfter as number }),
+    areas: sortAreas ? areas.sort((a, b) => a.order - b.order) : areas,
+  };
+};
+
+/**
+ * Chapters group consecutive stop points, so every chapter must pick up where the previous one ended
+ * and no stop point can belong to two chapters. Stop points before, between or after chapters are allowed.
+ */
+const parseChapters = (value: unknown, stopPoints: StopPoint[], context: ParseContext): Chapter[] | null => {
+  const { errors } = context;
+  if (!Array.isArray(value)) {
+    errors.push({ path: "$.chapters", message: "Expected an array of chapters." });
+    return null;
+  }
+  const errorCount = errors.length;
+  const chapters: Chapter[] = [];
+  const seenChapterIds = new Set<string>();
+  const chapterOfStopPoint = new Map<string, string>();
+  let lastStopPointIndex = -1;
+  value.forEach((rawChapter, index) => {
+    const path = `$.chapters[${index}]`;
+    if (!isRecord(rawChapter)) {
+      errors.push({ path, message: "Expected a chapter object." });
+      return;
+    }
+    const chapterErrorCount = errors.length;
+    if (typeof rawChapter.id !== "string" || rawChapter.id === "") {
+      errors.push({ path: `${path}.id`, message: "Expected a non-empty string." });
+    } else if (seenChapterIds.has(rawChapter.id)) {
+      errors.push({ path: `${path}.id`, message: `Duplicate chapter id "${rawChapter.id}".` });
+    } else {
+      seenChapterIds.add(rawChapter.id);
+    }
+    if (!isLocalizedText(rawChapter.title)) {
+      errors.push({
+        path: `${path}.title`,
+        message: "Expected a string or an object of translations keyed by locale.",
+      });
+    }
+    if (rawChapter.description !== undefined && !isLocalizedText(rawChapter.description)) {
+      errors.push({
+        path: `${path}.description`,
+        message: "Expected a string or an object of translations keyed by locale.",
+      });
+    }
+    const { stopPointIds } = rawChapter;
+    if (
+      !Array.isArray(stopPointIds) ||
+      stopPointIds.length === 0 ||
+      !stopPointIds.every((id) => typeof id === "string")
+    ) {
+      errors.push({ path: `${path}.stopPointIds`, message: "Expected a non-empty array of stop point ids." });
+      return;
+    }
+    stopPointIds.forEach((stopPointId: string, idIndex) => {
+      const idPath = `${path}.stopPointIds[${idIndex}]`;
+      const stopPointIndex = stopPoints.findIndex((stopPoint) => stopPoint.id === stopPointId);
+      const otherChapterId = chapterOfStopPoint.get(stopPointId);
+      if (stopPointIndex < 0) {
+        errors.push({ path: idPath, message: `Unknown stop point id "${stopPointId}".` });
+      } else if (otherChapterId !== undefined) {
+        errors.push({
+          path: idPath,
+          message: `Stop point "${stopPointId}" already belongs to chapter "${otherChapterId}".`,
+        });
+      } else if (stopPointIndex <= lastStopPointIndex) {
+        errors.push({
+          path: idPath,
+          message: `Stop point "${stopPointId}" is out of order; chapters must follow the order of the stop points.`,
+        });
+      } else if (idIndex > 0 && stopPointIndex !== lastStopPointIndex + 1) {
+        errors.push({
+          path: idPath,
+          message: `Stop points of a chapter must be consecutive; "${stopPointId}" does not follow the previous one.`,
+        });
+      } else {
+        lastStopPointIndex = stopPointIndex;
+        chapterOfStopPoint.set(stopPointId, String(rawChapter.id));
+      }
+    });
+    if (errors.length > chapterErrorCount) return;
+    const chapter: Chapter = {
+      id: rawChapter.id as string,
+      title: rawChapter.title as LocalizedText,
+      ...(rawChapter.description !== undefined && { description: rawChapter.description as LocalizedText }),
+      stopPointIds: stopPointIds as string[],
+    };
+    context.texts.push({ path: `${path}.title`, text: chapter.title });
+    if (chapter.description !== undefined) {
+      context.texts.push({ path: `${path}.description`, text: chapter.description });
+    }
+    chapters.push(chapter);
+  });
+  return errors.length > errorCount ? null : chapters;
+};
+
+/**
+ * Validates untrusted tutorial JSON (e.g. a file exported by the editor), migrates
+ * older versions to the current shape and returns normalized data with areas sorted
+ * by `order`, unless `sortAreas` is false. On failure, every problem found is reported
+ * with its JSON path.
+ */
+export const parseTutorialData = (json: unknown, options: ParseTutorialDataOptions = {}): ParseTutorialDataResult => {
+  const errors: TutorialDataError[] = [];
+
+  if (!isRecord(json)) {
+    return {
+      ok: false,
+      data: null,
+      errors: [{ path: "$", message: "Expected a tutorial data object." }],
+      warnings: [],
+    };
+  }
+
+  const migrated = migrate(json, errors);
+  if (!migrated) return { ok: false, data: null, errors, warnings: [] };
+
+  if (!Array.isArray(migrated.stopPoints)) {
+    errors.push({ path: "$.stopPoints", message: "Expected an array of stop points." });
+    return { ok: false, data: null, errors, warnings: [] };
+  }
+
+  const stopPoints: StopPoint[] = [];
+  const context: ParseContext = { errors, stopPointReferences: [], texts: [] };
+  const seenStopIds = new Set<string>();
+  migrated.stopPoints.forEach((rawStopPoint, index) => {
+    const path = `$.stopPoints[${index}]`;
+    const stopPoint = parseStopPoint(rawStopPoint, path, context, options.sortAreas ?? true);
+    if (!stopPoint) return;
+    if (seenStopIds.has(stopPoint.id)) {
+      errors.push({ path: `${path}.id`, message: `Duplicate stop point id "${stopPoint.id}".` });
+    }
+    const previous = stopPoints[stopPoints.length - 1];
+    if (previous && stopPoint.time <= previous.time) {
+      errors.push({
+        path: `${path}.time`,
+        message: `Stop points must be sorted by strictly increasing time (${stopPoint.time} follows ${previous.time}).`,
+      });
+    }
+    seenStopIds.add(stopPoint.id);
+    stopPoints.push(stopPoint);
+  });
+
+  context.stopPointReferences.forEach(({ path, stopPointId }) => {
+    if (!seenStopIds.has(stopPointId)) errors.push({ path, message: `Unknown stop point id "${stopPointId}".` });
+  });
+
+  // Chapters refer to stop points by id, so they are checked once all stop points are known.
+  const chapters =
+    migrated.chapters === undefined || errors.length > 0 ? null : parseChapters(migrated.chapters, stopPoints, context);
+
+  if (errors.length > 0) return { ok: false, data: null, errors, warnings: [] };
+
+  const warnings: TutorialDataError[] = [];
+
+  const requiredLocales = options.locales ?? collectLocales(stopPoints, chapters ?? []);
+  context.texts.forEach(({ path, text }) => {
+    // Plain strings are used for every locale, so only translation maps can miss one.
+    if (typeof text === "string") return;
+    const missing = requiredLocales.filter((locale) => text[locale] === undefined);
+    if (missing.length > 0) warnings.push({ path, message: `Missing translations for ${missing.join(", ")}.` });
+  });
+  const stopPointPath = (stopPointId: string) =>
+    `$.stopPoints[${stopPoints.findIndex((stopPoint) => stopPoint.id === stopPointId)}]`;
+  const flow = analyzeTutorialFlow(stopPoints);
+  flow.trappedStopPointIds.forEach((stopPointId) => {
+    errors.push({
+      path: stopPointPath(stopPointId),
+      message: "The end of the tutorial can never be reached from here.",
+    });
+  });
+  flow.unreachableStopPointIds.forEach((stopPointId) => {
+    warnings.push({ path: stopPointPath(stopPointId), message: "No branch ever reaches this stop point." });
+  });
+  flow.loops.forEach((loop) => {
+    warnings.push({
+      path: stopPointPath(loop[0]),
+      message: `Stop points ${loop.map((id) => `"${id}"`).join(", ")} can branch back into each other.`,
+    });
+  });
+
+  if (errors.length > 0) return { ok: false, data: null, errors, warnings };
+
+  const data: TutorialJsonData = {
+    version: CURRENT_TUTORIAL_DATA_VERSION,
+    ...(chapters && { chapters }),
+    stopPoints,
+  };
+  return { ok: true, data, errors: [], warnings };
+};
@@ -0,0 +1,115 @@
+import { TutorialJsonData, TutorialPlaylistProgress, TutorialProgress, TutorialProgressStorage } from "../types";
+
+const STORAGE_KEY_PREFIX = "react-tutorial-video:progress:";
+const PLAYLIST_STORAGE_KEY_PREFIX = "react-tutorial-video:playlist:";
+
+export const getProgressStorageKey = (uniqueKey: string) => `${STORAGE_KEY_PREFIX}${uniqueKey}`;
+
+export const getPlaylistStorageKey = (uniqueKey: string) => `${PLAYLIST_STORAGE_KEY_PREFIX}${uniqueKey}`;
+
+/** FNV-1a hash of the normalized tutorial data, so stored progress is only reused for the same tutorial. */
+export const hashTutorialData = (data: TutorialJsonData): string => {
+  const json = JSON.stringify(data);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/** Resolves the `progressStorage` prop to a storage, or null if it is unavailable (e.g. during SSR). */
+export const resolveProgressStorage = (
+  storage: "localStorage" | "sessionStorage" | TutorialProgressStorage
+): TutorialProgressStorage | null => {
+  if (typeof storage !== "string") return storage;
+  try {
+    return typeof window === "undefined" ? null : window[storage];
+  } catch {
+    // Accessing web storage throws when it is disabled, e.g. for sandboxed iframes.
+    return null;
+  }
+};
+
+const isProgress = (value: unknown): value is TutorialProgress => {
+  if (typeof value !== "object" || value === null) return false;
+  const progress = value as Record<string, unknown>;
+  return (
+    typeof progress.dataHash === "string" &&
+    Array.isArray(progress.completedStopPointIds) &&
+    progress.completedStopPointIds.every((id) => typeof id === "string") &&
+    (progress.activeStopPointId === null || typeof progress.activeStopPointId === "string") &&
+    typeof progress.time === "number" &&
+    Number.isFinite(progress.time) &&
+    typeof progress.updatedAt === "number"
+  );
+};
+
+/** Reads stored progress, returning null if there is none, it is malformed or it belongs to other data. */
+export const loadProgress = async (
+  storage: TutorialProgressStorage,
+  key: string,
+  dataHash: string
+): Promise<TutorialProgress | null> => {
+  try {
+    const stored = await storage.getItem(key);
+    if (stored === null) return null;
+    const progress: unknown = JSON.parse(stored);
+    return isProgress(progress) && progress.dataHash === dataHash ? progress : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Writes progress without throwing; a failed write only means the next session starts over. */
+export const saveProgress = async (
+  storage: TutorialProgressStorage,
+  key: string,
+  progress: TutorialProgress | TutorialPlaylistProgress
+) => {
+  try {
+    await storage.setItem(key, JSON.stringify(progress));
+  } catch {
+    // Quota exceeded or storage unavailable.
+  }
+};
+
+export const clearProgress = async (storage: TutorialProgressStorage, key: string) => {
+  try {
+    await storage.removeItem(key);
+  } catch {
+    // Storage unavailable.
+  }
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isPlaylistProgress = (value: unknown): value is TutorialPlaylistProgress => {
+  if (typeof value !== "object" || value === null) return false;
+  const progress = value as Record<string, unknown>;
+  const { completedStopPointIds } = progress;
+  return (
+    (progress.lessonId === null || typeof progress.lessonId === "string") &&
+    isStringArray(progress.completedLessonIds) &&
+    typeof completedStopPointIds === "object" &&
+    completedStopPointIds !== null &&
+    Object.values(completedStopPointIds).every(isStringArray) &&
+    typeof progress.updatedAt === "number"
+  );
+};
+
+/** Reads stored playlist progress, returning null if there is none or it is malformed. */
+export const loadPlaylistProgress = async (
+  storage: TutorialProgressStorage,
+  key: string
+): Promise<TutorialPlaylistProgress | null> => {
+  try {
+    const stored = await storage.getItem(key);
+    if (stored === null) return null;
+    const progress: unknown = JSON.parse(stored);
+    return isPlaylistProgress(progress) ? progress : null;
+  } catch {
+    return null;
+  }
+};
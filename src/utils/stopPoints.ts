@@ -0,0 +1,67 @@
+import { AreaGoTo, InteractionArea, StopPoint } from "../types";
+
+/**
+ * Returns the index of the first stop point after `time` (or at `time` when `inclusive`),
+ * or `stopPoints.length` if there is none.
+ */
+export const findNextStopPointIndex = (stopPoints: StopPoint[], time: number, inclusive = false): number => {
+  const index = stopPoints.findIndex((stopPoint) => (inclusive ? stopPoint.time >= time : stopPoint.time > time));
+  return index === -1 ? stopPoints.length : index;
+};
+
+/** Returns the areas of a stop point that branch with `goTo`, which are shown together as one choice. */
+export const getChoiceAreas = (stopPoint: StopPoint): InteractionArea[] => stopPoint.areas.filter((area) => area.goTo);
+
+/**
+ * Resolves a branch target to the stop point index the tutorial continues with, or `stopPoints.length`
+ * if it continues to the end of the video. Returns -1 for an unknown stop point id.
+ */
+export const resolveGoTo = (stopPoints: StopPoint[], goTo: AreaGoTo): number => {
+  if ("stopPointId" in goTo) return stopPoints.findIndex((stopPoint) => stopPoint.id === goTo.stopPointId);
+  return findNextStopPointIndex(stopPoints, goTo.time, true);
+};
+
+/** Seconds an area of an overlay stop point is shown if neither it nor its stop point sets `autoAdvanceAfter`. */
+export const DEFAULT_OVERLAY_AREA_DURATION = 5;
+
+export const isOverlayStopPoint = (stopPoint: StopPoint): boolean => stopPoint.mode === "overlay";
+
+export const isExploreStopPoint = (stopPoint: StopPoint | null | undefined): boolean => stopPoint?.layout === "explore";
+
+/** Whether the visited areas of an explore stop point include every area it requires. */
+export const hasVisitedRequiredAreas = (stopPoint: StopPoint, visitedAreaIndexes: number[]): boolean =>
+  stopPoint.areas.every(
+    (area, index) =>
+      visitedAreaIndexes.includes(index) || (stopPoint.requiredAreaIds && !stopPoint.requiredAreaIds.includes(area.id))
+  );
+
+/** Seconds after which an area continues on its own, or undefined if it waits for the user. */
+export const getAutoAdvanceAfter = (stopPoint: StopPoint, area: InteractionArea): number | undefined =>
+  area.autoAdvanceAfter ?? stopPoint.autoAdvanceAfter;
+
+export interface OverlayArea {
+  stopPointIndex: number;
+  area: InteractionArea;
+  /** Video time the area appears at. */
+  start: number;
+  /** Video time the area disappears at. */
+  end: number;
+}
+
+/** Returns the areas of overlay stop points shown at `time`. Areas of one stop point follow each other. */
+export const getOverlayAreasAt = (stopPoints: StopPoint[], time: number): OverlayArea[] => {
+  const shown: OverlayArea[] = [];
+  stopPoints.forEach((stopPoint, stopPointIndex) => {
+    if (!isOverlayStopPoint(stopPoint) || time < stopPoint.time) return;
+    let start = stopPoint.time;
+    for (const area of stopPoint.areas) {
+      const end = start + (getAutoAdvanceAfter(stopPoint, area) ?? DEFAULT_OVERLAY_AREA_DURATION);
+      if (time < end) {
+        if (time >= start) shown.push({ stopPointIndex, area, start, end });
+        return;
+      }
+      start = end;
+    }
+  });
+  return shown;
+};
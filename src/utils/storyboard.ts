@@ -0,0 +1,72 @@
+import { InteractionArea, LocalizedText, StopPoint, TutorialJsonData } from "../types";
+import { getAutoAdvanceAfter, isOverlayStopPoint } from "./stopPoints";
+import { formatVideoTime } from "./timeRanges";
+
+const AREA_TYPE_NAMES: Record<InteractionArea["type"], string> = {
+  box: "Box",
+  oval: "Oval",
+  polygon: "Polygon",
+  quiz: "Quiz",
+};
+
+/** Indents continuation lines so multi-line texts stay inside their list item. */
+const indent = (text: string, prefix: string) => text.split("\n").join(`\n${prefix}`);
+
+/** Renders a text as is, or one line per translation so every locale can be reviewed side by side. */
+const renderText = (text: LocalizedText, prefix: string, label = ""): string[] =>
+  typeof text === "string"
+    ? [`${prefix}${label}${indent(text, prefix)}`]
+    : Object.entries(text).map(
+        ([locale, translation]) => `${prefix}${label}**${locale}:** ${indent(translation, prefix)}`
+      );
+
+const describeGoTo = (area: InteractionArea) => {
+  if (!area.goTo) return null;
+  return "stopPointId" in area.goTo
+    ? `Goes to stop point \`${area.goTo.stopPointId}\``
+    : `Goes to ${formatVideoTime(area.goTo.time)}`;
+};
+
+const renderArea = (stopPoint: StopPoint, area: InteractionArea, index: number): string[] => {
+  const details = [
+    `\`${area.id}\``,
+    area.hasNextButton ? "continue button" : area.type === "quiz" ? null : "click the highlight",
+    getAutoAdvanceAfter(stopPoint, area) !== undefined
+      ? `auto-advances after ${getAutoAdvanceAfter(stopPoint, area)}s`
+      : null,
+    area.type !== "quiz" && area.keyframes?.length ? "moving" : null,
+    describeGoTo(area),
+  ].filter(Boolean);
+  const lines = [`${index + 1}. **${AREA_TYPE_NAMES[area.type]}** (${details.join(", ")})`];
+  if (area.title !== undefined) lines.push(...renderText(area.title, "   ", "**Title:** "));
+  lines.push(...renderText(area.text, "   "));
+  if (area.type === "quiz") {
+    area.options.forEach((option) => {
+      lines.push(...renderText(option.text, "   ", option.id === area.correctOptionId ? "- [x] " : "- [ ] "));
+    });
+    if (area.feedback?.correct !== undefined) lines.push(...renderText(area.feedback.correct, "   ", "*Correct:* "));
+    if (area.feedback?.incorrect !== undefined) {
+      lines.push(...renderText(area.feedback.incorrect, "   ", "*Incorrect:* "));
+    }
+  }
+  return lines;
+};
+
+/**
+ * Renders every step of a tutorial as a Markdown document for copy review: one section per stop
+ * point with its time and mode, and its areas in order with their texts in every locale, quiz
+ * options (the correct one checked) and branches.
+ */
+export const tutorialToMarkdownStoryboard = (data: TutorialJsonData, title = "Tutorial storyboard"): string => {
+  const sections = data.stopPoints.map((stopPoint, index) => {
+    const mode = isOverlayStopPoint(stopPoint) ? " · overlay" : "";
+    const heading = `## ${index + 1}. \`${stopPoint.id}\` at ${formatVideoTime(stopPoint.time)}${mode}`;
+    const areas = stopPoint.areas.map((area, areaIndex) => renderArea(stopPoint, area, areaIndex).join("\n\n"));
+    return [heading, ...areas].join("\n\n");
+  });
+  const summary = `${data.stopPoints.length} stop points, ${data.stopPoints.reduce(
+    (count, stopPoint) => count + stopPoint.areas.length,
+    0
+  )} steps.`;
+  return [`# ${title}`, summary, ...sections].join("\n\n") + "\n";
+};
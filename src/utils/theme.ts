@@ -0,0 +1,121 @@
+import { TutorialTheme, TutorialThemeName, TutorialThemeOverrides } from "../types";
+
+export const darkTheme: TutorialTheme = {
+  primary: "#3B82F6", // blue-500
+  secondary: "#8B5CF6", // purple-500
+  bubbleBackground: "#1E293B", // slate-800
+  bubbleBorder: "#475569", // slate-600
+  bubbleText: "#F1F5F9", // slate-100
+  bubbleMutedText: "#94A3B8", // slate-400
+  bubbleRadius: "1rem",
+  glowOpacity: 0.1,
+  buttonText: "#FFFFFF",
+  buttonRadius: "0.75rem",
+  maskColor: "#000000",
+  maskOpacity: 0.8,
+  highlightBorderStyle: "dashed",
+  highlightBorderWidth: 4,
+  highlightRadius: "0.5rem",
+  successColor: "#22C55E", // green-500
+  errorColor: "#EF4444", // red-500
+  warningColor: "#FCD34D", // amber-300
+  panelBackground: "rgb(255 255 255 / 0.05)",
+  panelBorder: "rgb(255 255 255 / 0.1)",
+  trackColor: "rgb(255 255 255 / 0.2)",
+};
+
+export const lightTheme: TutorialTheme = {
+  primary: "#2563EB", // blue-600
+  secondary: "#7C3AED", // violet-600
+  bubbleBackground: "#FFFFFF",
+  bubbleBorder: "#CBD5E1", // slate-300
+  bubbleText: "#0F172A", // slate-900
+  bubbleMutedText: "#64748B", // slate-500
+  bubbleRadius: "1rem",
+  glowOpacity: 0.15,
+  buttonText: "#FFFFFF",
+  buttonRadius: "0.75rem",
+  maskColor: "#0F172A", // slate-900
+  maskOpacity: 0.6,
+  highlightBorderStyle: "dashed",
+  highlightBorderWidth: 4,
+  highlightRadius: "0.5rem",
+  successColor: "#16A34A", // green-600
+  errorColor: "#DC2626", // red-600
+  warningColor: "#B45309", // amber-700
+  panelBackground: "#FFFFFF",
+  panelBorder: "#E2E8F0", // slate-200
+  trackColor: "#E2E8F0", // slate-200
+};
+
+/** Solid colors and borders only, for users who need more contrast than the dark and light themes give. */
+export const highContrastTheme: TutorialTheme = {
+  primary: "#FFD400",
+  secondary: "#FFD400",
+  bubbleBackground: "#000000",
+  bubbleBorder: "#FFFFFF",
+  bubbleText: "#FFFFFF",
+  bubbleMutedText: "#FFFFFF",
+  bubbleRadius: "0.5rem",
+  glowOpacity: 0,
+  buttonText: "#000000",
+  buttonRadius: "0.5rem",
+  maskColor: "#000000",
+  maskOpacity: 0.9,
+  highlightBorderStyle: "solid",
+  highlightBorderWidth: 4,
+  highlightRadius: "0",
+  successColor: "#00FF66",
+  errorColor: "#FF6B6B",
+  warningColor: "#FFD400",
+  panelBackground: "#000000",
+  panelBorder: "#FFFFFF",
+  trackColor: "#595959",
+};
+
+export interface ThemePreferences {
+  /** Whether `prefers-color-scheme: dark` matches. */
+  prefersDark: boolean;
+  /** Whether `prefers-contrast: more` matches. */
+  prefersMoreContrast: boolean;
+}
+
+const getPreset = (name: TutorialThemeName, preferences: ThemePreferences): TutorialTheme => {
+  switch (name) {
+    case "light":
+      return lightTheme;
+    case "highContrast":
+      return highContrastTheme;
+    case "auto":
+      if (preferences.prefersMoreContrast) return highContrastTheme;
+      return preferences.prefersDark ? darkTheme : lightTheme;
+    default:
+      return darkTheme;
+  }
+};
+
+/** Resolves the `theme` prop to a complete theme. Without a theme, the player keeps its original dark look. */
+export const resolveTutorialTheme = (
+  theme: TutorialThemeName | TutorialThemeOverrides | undefined,
+  preferences: ThemePreferences
+): TutorialTheme => {
+  if (theme === undefined || typeof theme === "string") return getPreset(theme ?? "dark", preferences);
+  const { base = "dark", ...overrides } = theme;
+  const definedOverrides = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...getPreset(base, preferences), ...definedOverrides };
+};
+
+const toCustomPropertyName = (key: string) => `--rtv-${key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`;
+
+/** Maps a theme to the CSS custom properties the player's styles read, e.g. `bubbleBackground` to `--rtv-bubble-background`. */
+export const themeToCssVariables = (theme: TutorialTheme): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(theme).map(([key, value]) => [
+      toCustomPropertyName(key),
+      key === "highlightBorderWidth" ? `${value}px` : String(value),
+    ])
+  );
+
+/** The mask color at the mask opacity. Areas override `--rtv-mask-opacity` on their own highlight. */
+export const MASK_BACKGROUND =
+  "color-mix(in srgb, var(--rtv-mask-color) calc(var(--rtv-mask-opacity) * 100%), transparent)";
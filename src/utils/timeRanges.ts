@@ -0,0 +1,41 @@
+import { TimeRange } from "../types";
+
+/**
+ * Updates the ranges of the video skipped by branching from `fromTime` to `toTime`.
+ * Jumping forward skips the range in between; jumping back re-opens everything after `toTime`.
+ */
+export const updateSkippedRanges = (ranges: TimeRange[], fromTime: number, toTime: number): TimeRange[] => {
+  if (toTime <= fromTime) {
+    return ranges
+      .filter((range) => range.start < toTime)
+      .map((range) => ({ start: range.start, end: Math.min(range.end, toTime) }));
+  }
+  const merged: TimeRange[] = [];
+  [...ranges, { start: fromTime, end: toTime }]
+    .sort((a, b) => a.start - b.start)
+    .forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+      else merged.push({ ...range });
+    });
+  return merged;
+};
+
+/** Returns the total length of the parts of `ranges` that lie between `start` and `end`. */
+export const getOverlap = (ranges: TimeRange[], start: number, end: number): number =>
+  ranges.reduce((total, range) => total + Math.max(0, Math.min(range.end, end) - Math.max(range.start, start)), 0);
+
+/** Returns the progress along the path actually taken, ignoring skipped ranges, as a number from 0 to 1. */
+export const getPathProgress = (ranges: TimeRange[], currentTime: number, duration: number): number => {
+  const pathDuration = duration - getOverlap(ranges, 0, duration);
+  if (pathDuration <= 0) return 1;
+  return Math.min(1, (currentTime - getOverlap(ranges, 0, currentTime)) / pathDuration);
+};
+
+/** Formats seconds as `m:ss`, keeping fractions of a second, e.g. `1:05.5`. */
+export const formatVideoTime = (seconds: number): string => {
+  const totalMilliseconds = Math.round(seconds * 1000);
+  const minutes = Math.floor(totalMilliseconds / 60000);
+  const rest = (totalMilliseconds % 60000) / 1000;
+  return `${minutes}:${rest < 10 ? "0" : ""}${rest}`;
+};
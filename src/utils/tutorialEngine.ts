@@ -0,0 +1,437 @@
+import {
+  SkippedStopPolicy,
+  StopPoint,
+  TutorialEngineAction,
+  TutorialEngineEffect,
+  TutorialEngineEvent,
+  TutorialEngineState,
+} from "../types";
+import {
+  findNextStopPointIndex,
+  getAutoAdvanceAfter,
+  hasVisitedRequiredAreas,
+  isExploreStopPoint,
+  isOverlayStopPoint,
+  resolveGoTo,
+} from "./stopPoints";
+import { updateSkippedRanges } from "./timeRanges";
+
+export interface TutorialEngineContext {
+  stopPoints: StopPoint[];
+  skippedStopPolicy: SkippedStopPolicy;
+  /** Milliseconds between completing an area and showing the next one. */
+  transitionDuration: number;
+  /** Seconds before its time at which a stop point that pauses the video is reached. */
+  stopTolerance: number;
+  /** Returns the current time in milliseconds, e.g. `Date.now`, to pause auto-advance countdowns. */
+  now: () => number;
+}
+
+export interface TutorialEngineTransition {
+  state: TutorialEngineState;
+  effects: TutorialEngineEffect[];
+}
+
+export const initialTutorialEngineState: TutorialEngineState = {
+  status: "idle",
+  stopPointIndex: 0,
+  activeAreaIndex: 0,
+  completingAreaIndex: 0,
+  visitedAreaIndexes: [],
+  transitionId: 0,
+  autoAdvanceDelay: null,
+  autoAdvanceStartedAt: null,
+  currentTime: 0,
+  duration: 0,
+  skippedRanges: [],
+  completedStopPointIds: [],
+  isSeeking: false,
+  pendingSeekTime: null,
+};
+
+// A `seeked` event this close to the target of the engine's own seek is attributed to the engine.
+const SEEK_TOLERANCE = 0.5;
+
+export const isAtStopPoint = (state: TutorialEngineState) =>
+  state.status === "atStop" || state.status === "transitioning";
+
+const notify = (event: TutorialEngineEvent): TutorialEngineEffect => ({ type: "notify", event });
+
+const unchanged = (state: TutorialEngineState): TutorialEngineTransition => ({ state, effects: [] });
+
+/** Shows an area of the active stop point and schedules its auto-advance, if it has one. */
+const showArea = (
+  state: TutorialEngineState,
+  context: TutorialEngineContext,
+  areaIndex: number
+): TutorialEngineTransition => {
+  const stopPoint = context.stopPoints[state.stopPointIndex];
+  const area = stopPoint?.areas[areaIndex];
+  // Quizzes, branch choices and explore stop points always wait for the user.
+  const autoAdvanceAfter =
+    stopPoint && area && area.type !== "quiz" && !area.goTo && !isExploreStopPoint(stopPoint)
+      ? getAutoAdvanceAfter(stopPoint, area)
+      : undefined;
+  const autoAdvanceDelay = autoAdvanceAfter === undefined ? null : autoAdvanceAfter * 1000;
+  // Cancels a pending transition or auto-advance.
+  const transitionId = state.transitionId + 1;
+  return {
+    state: {
+      ...state,
+      status: "atStop",
+      activeAreaIndex: areaIndex,
+      transitionId,
+      autoAdvanceDelay,
+      autoAdvanceStartedAt: autoAdvanceDelay === null ? null : context.now(),
+    },
+    effects:
+      autoAdvanceDelay === null
+        ? []
+        : [{ type: "schedule", action: { type: "autoAdvance", transitionId }, delay: autoAdvanceDelay }],
+  };
+};
+
+const activateStopPoint = (
+  state: TutorialEngineState,
+  context: TutorialEngineContext,
+  stopPointIndex: number,
+  areaIndex: number
+): TutorialEngineTransition => {
+  const stopPoint = context.stopPoints[stopPointIndex];
+  if (!stopPoint) return unchanged(state);
+  // Overlay stop points never pause; their areas are shown while the video plays through them.
+  if (isOverlayStopPoint(stopPoint)) return playFrom(state, stopPoint.time, stopPointIndex + 1);
+  const shown = showArea(
+    { ...state, stopPointIndex, visitedAreaIndexes: [], currentTime: stopPoint.time, pendingSeekTime: stopPoint.time },
+    context,
+    areaIndex
+  );
+  return {
+    state: shown.state,
+    effects: [
+      { type: "pause" },
+      { type: "seek", time: stopPoint.time },
+      notify({ type: "stopReached", stopPointIndex }),
+      ...shown.effects,
+    ],
+  };
+};
+
+/**
+ * Returns the index of the first (or last) stop point in `[from, to)` that pauses the video,
+ * or undefined if there is none.
+ */
+const findPausingStopPoint = (stopPoints: StopPoint[], from: number, to: number, last: boolean) => {
+  const indexes = stopPoints
+    .map((stopPoint, index) => (index >= from && index < to && !isOverlayStopPoint(stopPoint) ? index : -1))
+    .filter((index) => index >= 0);
+  return last ? indexes[indexes.length - 1] : indexes[0];
+};
+
+const playFrom = (state: TutorialEngineState, time: number, stopPointIndex: number): TutorialEngineTransition => ({
+  state: {
+    ...state,
+    status: "playing",
+    stopPointIndex,
+    transitionId: state.transitionId + 1,
+    currentTime: time,
+    pendingSeekTime: time,
+  },
+  effects: [{ type: "seek", time }, { type: "play" }],
+});
+
+const startTransition = (
+  state: TutorialEngineState,
+  context: TutorialEngineContext,
+  areaIndex: number
+): TutorialEngineTransition => {
+  const transitionId = state.transitionId + 1;
+  return {
+    state: { ...state, status: "transitioning", completingAreaIndex: areaIndex, transitionId },
+    effects: [
+      notify({ type: "areaCompleted", stopPointIndex: state.stopPointIndex, areaIndex }),
+      { type: "schedule", action: { type: "transitionEnd", transitionId }, delay: context.transitionDuration },
+    ],
+  };
+};
+
+const markStopPointCompleted = (state: TutorialEngineState, stopPointId: string): TutorialEngineState =>
+  state.completedStopPointIds.includes(stopPointId)
+    ? state
+    : { ...state, completedStopPointIds: [...state.completedStopPointIds, stopPointId] };
+
+/**
+ * Shows the next area of the stop point, follows the completed area's branch or leaves the stop point.
+ * Explore stop points are left as a whole, so they never show a next area.
+ */
+const endTransition = (state: TutorialEngineState, context: TutorialEngineContext): TutorialEngineTransition => {
+  const stopPoint = context.stopPoints[state.stopPointIndex];
+  if (!stopPoint) return unchanged(state);
+  const goTo = stopPoint.areas[state.completingAreaIndex]?.goTo;
+  const nextAreaIndex = state.completingAreaIndex + 1;
+  if (!goTo && !isExploreStopPoint(stopPoint) && nextAreaIndex < stopPoint.areas.length) {
+    return showArea(state, context, nextAreaIndex);
+  }
+
+  const completed = markStopPointCompleted(state, stopPoint.id);
+  if (goTo) {
+    const targetIndex = resolveGoTo(context.stopPoints, goTo);
+    const targetTime = "stopPointId" in goTo ? context.stopPoints[targetIndex]?.time : goTo.time;
+    if (targetTime !== undefined) {
+      const branched = {
+        ...completed,
+        skippedRanges: updateSkippedRanges(completed.skippedRanges, state.currentTime, targetTime),
+      };
+      return "stopPointId" in goTo
+        ? activateStopPoint(branched, context, targetIndex, 0)
+        : playFrom(branched, targetTime, targetIndex);
+    }
+  }
+  return {
+    state: { ...completed, status: "playing", stopPointIndex: state.stopPointIndex + 1 },
+    effects: [{ type: "play" }],
+  };
+};
+
+/** Resynchronizes the stop point cursor after the user seeks the media element. */
+const handleUserSeek = (
+  state: TutorialEngineState,
+  context: TutorialEngineContext,
+  time: number
+): TutorialEngineTransition => {
+  const wasAtStop = isAtStopPoint(state);
+  // An active stop point counts as handled, so seeking away from it never re-triggers it.
+  const previousIndex = state.stopPointIndex + (wasAtStop ? 1 : 0);
+  const newIndex = findNextStopPointIndex(context.stopPoints, time);
+  const seekEvent = notify({
+    type: "seek",
+    fromTime: state.currentTime,
+    toTime: time,
+    stopPointIndex: wasAtStop ? state.stopPointIndex : null,
+  });
+  const moved: TutorialEngineState = {
+    ...state,
+    currentTime: time,
+    status: state.status === "finished" ? "paused" : state.status,
+  };
+
+  const { skippedStopPolicy } = context;
+  const skippedIndex =
+    newIndex > previousIndex && skippedStopPolicy !== "none"
+      ? findPausingStopPoint(context.stopPoints, previousIndex, newIndex, skippedStopPolicy === "last")
+      : undefined;
+  if (skippedIndex !== undefined) {
+    const activated = activateStopPoint(moved, context, skippedIndex, 0);
+    return { state: activated.state, effects: [seekEvent, ...activated.effects] };
+  }
+
+  // Backward seeks re-arm every stop point after the new position.
+  return {
+    state: {
+      ...moved,
+      status: wasAtStop ? "playing" : moved.status,
+      stopPointIndex: newIndex,
+      transitionId: state.transitionId + 1,
+    },
+    effects: wasAtStop ? [seekEvent, { type: "play" }] : [seekEvent],
+  };
+};
+
+/**
+ * The tutorial state machine. A pure function from a state and an action to the next state and the
+ * side effects (media commands, timers and notifications) the caller has to run.
+ */
+export const reduceTutorialEngine = (
+  state: TutorialEngineState,
+  action: TutorialEngineAction,
+  context: TutorialEngineContext
+): TutorialEngineTransition => {
+  const { stopPoints } = context;
+  switch (action.type) {
+    case "start":
+      if (state.status !== "idle") return unchanged(state);
+      return {
+        state: { ...state, status: "playing" },
+        effects: [{ type: "play" }, notify({ type: "start", resumed: false })],
+      };
+
+    case "resume": {
+      if (state.status !== "idle") return unchanged(state);
+      const { progress } = action;
+      const restored = { ...state, completedStopPointIds: progress.completedStopPointIds };
+      const activeIndex = stopPoints.findIndex((stopPoint) => stopPoint.id === progress.activeStopPointId);
+      const resumed =
+        activeIndex >= 0
+          ? activateStopPoint(restored, context, activeIndex, 0)
+          : playFrom(restored, progress.time, findNextStopPointIndex(stopPoints, progress.time));
+      // `start` comes first, so `onTutorialStart` and analytics see it before the resumed stop point.
+      return { state: resumed.state, effects: [notify({ type: "start", resumed: true }), ...resumed.effects] };
+    }
+
+    case "play":
+      if (state.status === "idle") return reduceTutorialEngine(state, { type: "start" }, context);
+      if (
+        "requested" in action &&
+        state.status === "atStop" &&
+        state.autoAdvanceDelay !== null &&
+        state.autoAdvanceStartedAt === null
+      ) {
+        const transitionId = state.transitionId + 1;
+        return {
+          state: { ...state, transitionId, autoAdvanceStartedAt: context.now() },
+          effects: [{ type: "schedule", action: { type: "autoAdvance", transitionId }, delay: state.autoAdvanceDelay }],
+        };
+      }
+      if (state.status !== "paused") return unchanged(state);
+      return { state: { ...state, status: "playing" }, effects: [{ type: "play" }] };
+
+    case "pause":
+      // The video already waits at a stop point, but a running auto-advance countdown is held. The media's own
+      // pause events are not requests; one follows every stop point's pause effect.
+      if (
+        "requested" in action &&
+        state.status === "atStop" &&
+        state.autoAdvanceDelay !== null &&
+        state.autoAdvanceStartedAt !== null
+      ) {
+        const elapsed = context.now() - state.autoAdvanceStartedAt;
+        return unchanged({
+          ...state,
+          transitionId: state.transitionId + 1,
+          autoAdvanceDelay: Math.max(0, state.autoAdvanceDelay - elapsed),
+          autoAdvanceStartedAt: null,
+        });
+      }
+      if (state.status !== "playing") return unchanged(state);
+      return { state: { ...state, status: "paused" }, effects: [{ type: "pause" }, notify({ type: "pause" })] };
+
+    case "next":
+      if (state.status === "atStop") return startTransition(state, context, state.activeAreaIndex);
+      if (state.status === "transitioning" || state.stopPointIndex >= stopPoints.length) return unchanged(state);
+      return activateStopPoint(state, context, state.stopPointIndex, 0);
+
+    case "choose":
+      if (state.status !== "atStop" || !stopPoints[state.stopPointIndex]?.areas[action.areaIndex]?.goTo) {
+        return unchanged(state);
+      }
+      return startTransition(state, context, action.areaIndex);
+
+    case "visit": {
+      const stopPoint = stopPoints[state.stopPointIndex];
+      if (
+        state.status !== "atStop" ||
+        !stopPoint ||
+        !isExploreStopPoint(stopPoint) ||
+        !stopPoint.areas[action.areaIndex] ||
+        state.visitedAreaIndexes.includes(action.areaIndex)
+      ) {
+        return unchanged(state);
+      }
+      const visited = {
+        ...state,
+        activeAreaIndex: action.areaIndex,
+        visitedAreaIndexes: [...state.visitedAreaIndexes, action.areaIndex],
+      };
+      // The last required area completes the stop point, which also reports it as completed.
+      if (hasVisitedRequiredAreas(stopPoint, visited.visitedAreaIndexes)) {
+        return startTransition(visited, context, action.areaIndex);
+      }
+      return {
+        state: visited,
+        effects: [notify({ type: "areaCompleted", stopPointIndex: state.stopPointIndex, areaIndex: action.areaIndex })],
+      };
+    }
+
+    case "previous": {
+      if (state.status === "transitioning") return unchanged(state);
+      if (
+        state.status === "atStop" &&
+        state.activeAreaIndex > 0 &&
+        !isExploreStopPoint(stopPoints[state.stopPointIndex])
+      ) {
+        return showArea(state, context, state.activeAreaIndex - 1);
+      }
+      const previousIndex = state.stopPointIndex - 1;
+      const previousStop = stopPoints[previousIndex];
+      if (!previousStop) return unchanged(state);
+      return activateStopPoint(state, context, previousIndex, previousStop.areas.length - 1);
+    }
+
+    case "jumpToStop": {
+      const target = stopPoints[action.stopPointIndex];
+      if (!target) return unchanged(state);
+      // Jumping back, e.g. to an earlier chapter, re-opens the parts of the video later branches skipped.
+      const rewound =
+        target.time < state.currentTime
+          ? { ...state, skippedRanges: updateSkippedRanges(state.skippedRanges, state.currentTime, target.time) }
+          : state;
+      return activateStopPoint(rewound, context, action.stopPointIndex, action.areaIndex ?? 0);
+    }
+
+    case "jumpToStart":
+      return playFrom({ ...state, skippedRanges: [] }, 0, 0);
+
+    case "transitionEnd":
+      if (state.status !== "transitioning" || action.transitionId !== state.transitionId) return unchanged(state);
+      return endTransition(state, context);
+
+    case "autoAdvance":
+      if (state.status !== "atStop" || action.transitionId !== state.transitionId) return unchanged(state);
+      return startTransition(state, context, state.activeAreaIndex);
+
+    case "reset":
+      return {
+        state: {
+          ...initialTutorialEngineState,
+          duration: state.duration,
+          transitionId: state.transitionId + 1,
+          pendingSeekTime: 0,
+        },
+        effects: [{ type: "pause" }, { type: "seek", time: 0 }],
+      };
+
+    case "timeUpdate": {
+      if ((state.status !== "playing" && state.status !== "paused") || state.isSeeking) return unchanged(state);
+      let updated: TutorialEngineState = { ...state, currentTime: action.time };
+      // Overlay stop points are passed without pausing; the UI shows their areas from `currentTime`.
+      let nextStop = stopPoints[updated.stopPointIndex];
+      while (nextStop && isOverlayStopPoint(nextStop) && action.time >= nextStop.time) {
+        updated = markStopPointCompleted({ ...updated, stopPointIndex: updated.stopPointIndex + 1 }, nextStop.id);
+        nextStop = stopPoints[updated.stopPointIndex];
+      }
+      if (nextStop && action.time >= nextStop.time - context.stopTolerance) {
+        return activateStopPoint(updated, context, updated.stopPointIndex, 0);
+      }
+      return unchanged(updated);
+    }
+
+    case "seeking":
+      return unchanged({ ...state, isSeeking: true });
+
+    case "seeked": {
+      const seeked = { ...state, isSeeking: false, pendingSeekTime: null };
+      const isOwnSeek =
+        state.pendingSeekTime !== null && Math.abs(action.time - state.pendingSeekTime) < SEEK_TOLERANCE;
+      if (isOwnSeek || state.status === "idle") return unchanged(seeked);
+      return handleUserSeek(seeked, context, action.time);
+    }
+
+    case "durationChange":
+      return unchanged({ ...state, duration: action.duration });
+
+    case "ended":
+      if (state.status === "idle") return unchanged(state);
+      return {
+        state: {
+          ...state,
+          status: "finished",
+          transitionId: state.transitionId + 1,
+          currentTime: state.duration > 0 ? state.duration : state.currentTime,
+        },
+        effects: [notify({ type: "complete" })],
+      };
+
+    default:
+      return unchanged(state);
+  }
+};
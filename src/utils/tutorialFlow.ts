@@ -0,0 +1,89 @@
+import { StopPoint, TutorialFlowAnalysis } from "../types";
+import { getChoiceAreas, resolveGoTo } from "./stopPoints";
+
+/** Returns, for each stop point, the indexes of the stop points it can continue with. `stopPoints.length` is the end. */
+const buildFlowGraph = (stopPoints: StopPoint[]): number[][] =>
+  stopPoints.map((stopPoint, index) => {
+    const choices = getChoiceAreas(stopPoint);
+    if (choices.length === 0) return [index + 1];
+    const targets = choices.map((area) => resolveGoTo(stopPoints, area.goTo!)).filter((target) => target >= 0);
+    return Array.from(new Set(targets));
+  });
+
+const collectReachable = (start: number, edges: number[][]): Set<number> => {
+  const visited = new Set<number>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (visited.has(node)) continue;
+    visited.add(node);
+    edges[node]?.forEach((target) => queue.push(target));
+  }
+  return visited;
+};
+
+/** Tarjan's algorithm, keeping only components that actually contain a cycle. */
+const findLoops = (edges: number[][]): number[][] => {
+  const indexes = new Map<number, number>();
+  const lowLinks = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const loops: number[][] = [];
+  let counter = 0;
+
+  const visit = (node: number) => {
+    indexes.set(node, counter);
+    lowLinks.set(node, counter);
+    counter += 1;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const target of edges[node] ?? []) {
+      if (target >= edges.length) continue;
+      if (!indexes.has(target)) {
+        visit(target);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indexes.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indexes.get(node)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length > 1 || edges[node].includes(node)) loops.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  edges.forEach((_, node) => {
+    if (!indexes.has(node)) visit(node);
+  });
+  return loops;
+};
+
+/**
+ * Follows the branches (`goTo`) of a tutorial to find stop points that can never be reached,
+ * loops between stop points, and stop points from which the tutorial can never be finished.
+ */
+export const analyzeTutorialFlow = (stopPoints: StopPoint[]): TutorialFlowAnalysis => {
+  const end = stopPoints.length;
+  const edges = buildFlowGraph(stopPoints);
+  const reachable = collectReachable(0, edges);
+
+  const reverseEdges: number[][] = Array.from({ length: end + 1 }, () => []);
+  edges.forEach((targets, node) => targets.forEach((target) => reverseEdges[target].push(node)));
+  const canFinish = collectReachable(end, reverseEdges);
+
+  return {
+    unreachableStopPointIds: stopPoints.filter((_, index) => !reachable.has(index)).map((stopPoint) => stopPoint.id),
+    loops: findLoops(edges).map((loop) => loop.map((index) => stopPoints[index].id)),
+    trappedStopPointIds: stopPoints
+      .filter((_, index) => reachable.has(index) && !canFinish.has(index))
+      .map((stopPoint) => stopPoint.id),
+  };
+};
@@ -0,0 +1,243 @@
+import {
+  Chapter,
+  InteractionArea,
+  ParseTutorialDataResult,
+  StopPoint,
+  TutorialDataError,
+  TutorialJsonData,
+  WebVttCue,
+} from "../types";
+import { markdownToPlainText } from "./markdown";
+import { getLocaleChain, resolveLocalizedText } from "./localization";
+import { CURRENT_TUTORIAL_DATA_VERSION, parseTutorialData, ParseTutorialDataOptions } from "./parseTutorialData";
+
+// =================================================================
+// PARSING AND SERIALIZATION
+// =================================================================
+
+const TIMING_PATTERN = /^(\S+)\s+-->\s+(\S+)/;
+
+/** Parses `hh:mm:ss.ttt` or `mm:ss.ttt` into seconds, or returns null. */
+const parseTimestamp = (timestamp: string): number | null => {
+  const match = /^(?:(\d+):)?([0-5]\d):([0-5]\d)\.(\d{3})$/.exec(timestamp);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, milliseconds] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(milliseconds) / 1000;
+};
+
+export const formatWebVttTimestamp = (seconds: number): string => {
+  const totalMilliseconds = Math.round(Math.max(0, seconds) * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor(totalMilliseconds / 60000) % 60;
+  const wholeSeconds = Math.floor(totalMilliseconds / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(wholeSeconds)}.${pad(totalMilliseconds % 1000, 3)}`;
+};
+
+/**
+ * Parses the cues of a WebVTT file. The header, `NOTE`, `STYLE` and `REGION` blocks, cue settings
+ * and blocks with malformed timings are skipped, as browsers do.
+ */
+export const parseWebVtt = (source: string): WebVttCue[] => {
+  const blocks = source
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trimEnd()
+    .split(/\n{2,}/);
+  const cues: WebVttCue[] = [];
+  blocks.forEach((block, index) => {
+    const lines = block.split("\n").filter((line, lineIndex) => lineIndex > 0 || line.trim() !== "");
+    if (lines.length === 0 || (index === 0 && lines[0].startsWith("WEBVTT"))) return;
+    if (/^(NOTE|STYLE|REGION)(\s|$)/.test(lines[0])) return;
+    const timingIndex = TIMING_PATTERN.test(lines[0]) ? 0 : 1;
+    const timing = TIMING_PATTERN.exec(lines[timingIndex] ?? "");
+    const start = timing && parseTimestamp(timing[1]);
+    const end = timing && parseTimestamp(timing[2]);
+    if (start === null || end === null || end < start) return;
+    cues.push({
+      ...(timingIndex === 1 && { id: lines[0].trim() }),
+      start,
+      end,
+      text: lines.slice(timingIndex + 1).join("\n"),
+    });
+  });
+  return cues;
+};
+
+/** Serializes cues into a WebVTT file. Payloads must not contain blank lines or `-->`. */
+export const serializeWebVtt = (cues: WebVttCue[]): string =>
+  [
+    "WEBVTT",
+    ...cues.map(({ id, start, end, text }) => {
+      const timing = `${formatWebVttTimestamp(start)} --> ${formatWebVttTimestamp(end)}`;
+      return [...(id ? [id] : []), timing, text].join("\n");
+    }),
+  ].join("\n\n") + "\n";
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  nbsp: "\u00A0",
+  lrm: "\u200E",
+  rlm: "\u200F",
+};
+
+/** Strips WebVTT markup (`<v Speaker>`, `<i>`, timestamps…) and decodes entities for display. */
+export const webVttCueToPlainText = (text: string): string =>
+  text.replace(/<[^>]*>/g, "").replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (_, name: string) => HTML_ENTITIES[name]);
+
+// =================================================================
+// TUTORIAL DATA
+// =================================================================
+
+export interface TutorialWebVttOptions {
+  /** Video duration in seconds, where the cue of the last stop point ends. */
+  duration: number;
+  /** Locale of chapter titles taken from translated texts. @default "en" */
+  locale?: string;
+  fallbackLocales?: string[];
+}
+
+/** Each stop point covers the video from its time until the next stop point, the last one until `duration`. */
+const getStopPointCueRanges = (stopPoints: StopPoint[], duration: number) => {
+  const sorted = [...stopPoints].sort((a, b) => a.time - b.time);
+  return sorted.map((stopPoint, index) => {
+    const end = Math.max(sorted[index + 1]?.time ?? duration, stopPoint.time);
+    return { stopPoint, start: stopPoint.time, end };
+  });
+};
+
+// Cue payloads end at a blank line and must not contain the timing arrow.
+const toCueTitle = (text: string) => text.replace(/\s+/g, " ").replace(/-->/g, "->").trim();
+
+const getAreaTitle = (area: InteractionArea | undefined, localeChain: string[]): string => {
+  const text = resolveLocalizedText(area?.title ?? area?.text, localeChain);
+  return toCueTitle(area?.format === "markdown" ? markdownToPlainText(text) : text);
+};
+
+/** Each chapter covers the video from its first stop point until the end of the cue of its last one. */
+const getChapterCues = (chapters: Chapter[], stopPoints: StopPoint[], duration: number, localeChain: string[]) => {
+  const ranges = getStopPointCueRanges(stopPoints, duration);
+  const findRange = (stopPointId: string) => ranges.find(({ stopPoint }) => stopPoint.id === stopPointId);
+  return chapters.flatMap((chapter): WebVttCue[] => {
+    const first = findRange(chapter.stopPointIds[0]);
+    const last = findRange(chapter.stopPointIds[chapter.stopPointIds.length - 1]);
+    if (!first || !last) return [];
+    const title = toCueTitle(resolveLocalizedText(chapter.title, localeChain));
+    return [{ id: chapter.id, start: first.start, end: last.end, text: title || chapter.id }];
+  });
+};
+
+/**
+ * Converts the tutorial to a WebVTT chapters track (`<track kind="chapters">`) so its chapters show up
+ * in other players. Without `chapters` in the data, each stop point becomes a chapter titled with the
+ * title or text of its first area.
+ */
+export const tutorialToWebVttChapters = (
+  data: TutorialJsonData,
+  { duration, locale = "en", fallbackLocales = ["en"] }: TutorialWebVttOptions
+): string => {
+  const localeChain = getLocaleChain(locale, fallbackLocales);
+  if (data.chapters && data.chapters.length > 0) {
+    return serializeWebVtt(getChapterCues(data.chapters, data.stopPoints, duration, localeChain));
+  }
+  return serializeWebVtt(
+    getStopPointCueRanges(data.stopPoints, duration).map(({ stopPoint, start, end }) => ({
+      id: stopPoint.id,
+      start,
+      end,
+      text: getAreaTitle(stopPoint.areas[0], localeChain) || stopPoint.id,
+    }))
+  );
+};
+
+// Id of the cue at 0:00 that holds the chapters of a metadata track.
+const CHAPTERS_CUE_ID = "tutorial-chapters";
+
+// JSON has no line breaks; escaping `>` keeps texts containing `-->` from ending the cue.
+const toCueJson = (value: unknown) => JSON.stringify(value).replace(/>/g, "\\u003e");
+
+/**
+ * Converts the tutorial to a WebVTT metadata track (`<track kind="metadata">`) whose cues hold each
+ * stop point as JSON, preceded by a cue holding the chapters, if there are any.
+ * `parseTutorialDataFromWebVtt` turns it back into the same tutorial data.
+ */
+export const tutorialToWebVttMetadata = (
+  data: TutorialJsonData,
+  { duration }: Pick<TutorialWebVttOptions, "duration">
+): string =>
+  serializeWebVtt([
+    ...(data.chapters ? [{ id: CHAPTERS_CUE_ID, start: 0, end: 0, text: toCueJson({ chapters: data.chapters }) }] : []),
+    ...getStopPointCueRanges(data.stopPoints, duration).map(({ stopPoint, start, end }) => ({
+      id: stopPoint.id,
+      start,
+      end,
+      text: toCueJson(stopPoint),
+    })),
+  ]);
+
+/** A chapter has no areas, so it becomes a stop point showing its title until the user continues. */
+const chapterToStopPoint = (cue: WebVttCue, index: number): StopPoint => {
+  const id = cue.id ?? `chapter-${index + 1}`;
+  return {
+    id,
+    time: cue.start,
+    areas: [
+      {
+        id: `${id}-title`,
+        type: "box",
+        order: 1,
+        text: webVttCueToPlainText(cue.text),
+        hasNextButton: true,
+        box: { x: 0, y: 0, width: 1, height: 1 },
+      },
+    ],
+  };
+};
+
+/**
+ * Reads tutorial data back from a WebVTT metadata track written by `tutorialToWebVttMetadata`, or
+ * from a chapters track, in which case every chapter becomes a stop point with a single area showing
+ * its title, as a starting point for authoring. The result is validated like `parseTutorialData`.
+ */
+export const parseTutorialDataFromWebVtt = (
+  source: string,
+  options?: ParseTutorialDataOptions
+): ParseTutorialDataResult => {
+  const errors: TutorialDataError[] = [];
+  const stopPoints: unknown[] = [];
+  let chapters: unknown;
+  parseWebVtt(source).forEach((cue) => {
+    if (!cue.text.trimStart().startsWith("{")) {
+      stopPoints.push(chapterToStopPoint(cue, stopPoints.length));
+      return;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(cue.text);
+    } catch {
+      if (cue.id === CHAPTERS_CUE_ID) {
+        errors.push({ path: "$.chapters", message: "Expected the cue to hold the chapters as JSON." });
+        return;
+      }
+      errors.push({
+        path: `$.stopPoints[${stopPoints.length}]`,
+        message: "Expected the cue to hold a stop point as JSON.",
+      });
+      stopPoints.push(null);
+      return;
+    }
+    // A stop point may share the cue id, but never lacks its areas.
+    if (cue.id === CHAPTERS_CUE_ID && typeof json === "object" && json !== null && !("areas" in json)) {
+      chapters = (json as { chapters?: unknown }).chapters;
+    } else {
+      stopPoints.push(json);
+    }
+  });
+  if (errors.length > 0) return { ok: false, data: null, errors, warnings: [] };
+  return parseTutorialData(
+    { version: CURRENT_TUTORIAL_DATA_VERSION, ...(chapters !== undefined && { chapters }), stopPoints },
+    options
+  );
+};
@@ -1,11 +1,21 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  entry: ["src/index.tsx"], // Your main component
-  format: ["cjs", "esm"], // Output both CommonJS and ES modules
-  dts: true, // Generate TypeScript declaration files
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  external: ["react", "react-dom"], // Mark peer dependencies as external
-});
+export default defineConfig([
+  {
+    entry: ["src/index.tsx"], // Your main component
+    format: ["cjs", "esm"], // Output both CommonJS and ES modules
+    dts: true, // Generate TypeScript declaration files
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    external: ["react", "react-dom"], // Mark peer dependencies as external
+  },
+  {
+    entry: ["src/cli.ts"], // The `react-tutorial-video` command, which only uses the DOM-free utilities
+    format: ["cjs"],
+    platform: "node",
+    target: "node18",
+    splitting: false,
+    clean: false,
+  },
+]);